@@ -0,0 +1,310 @@
+// Local control API: an opt-in HTTP/WebSocket server bound to 127.0.0.1.
+//
+//   GET  /status             status of the timer on the bar
+//   POST /start              start; {"duration": "25m"} starts a new countdown
+//   POST /pause, /reset
+//   POST /time               {"duration": "25m"} or {"seconds": 1500}
+//   POST /preset             {"preset": 2} or {"preset": "Standup"}
+//   GET  /events             WebSocket feed of "tick" and "complete" events
+//
+// Requests become command-line commands run by the timer window (see
+// cli.rs), so they share its state and replies. Every request needs the
+// token, as "Authorization: Bearer <token>" or "?token=<token>" (browsers
+// cannot set headers on a WebSocket). No CORS headers are sent, so web pages
+// the user visits cannot call it; an overlay page with the token can still
+// open the WebSocket feed.
+
+use std::net::Ipv4Addr;
+use std::sync::Arc;
+use std::time::Duration;
+
+use axum::body::Bytes;
+use axum::extract::ws::{Message, WebSocket, WebSocketUpgrade};
+use axum::extract::{Query, Request, State};
+use axum::http::{header, HeaderMap, StatusCode};
+use axum::middleware::{self, Next};
+use axum::response::{IntoResponse, Response};
+use axum::routing::{get, post};
+use axum::{Json, Router};
+use serde::de::DeserializeOwned;
+use serde::Deserialize;
+use tauri::{Listener, Manager};
+use tokio::sync::{broadcast, watch, Mutex};
+
+use crate::cli;
+
+// Timer events kept for WebSocket clients that fall behind
+const EVENT_BUFFER: usize = 64;
+
+// How long a stopping server may take to let go of its port
+const SHUTDOWN_TIMEOUT: Duration = Duration::from_secs(2);
+
+// API settings from the settings window (see api.ts)
+#[derive(Debug, Deserialize, Clone, PartialEq)]
+pub struct ApiSettings {
+    enabled: bool,
+    port: u16,
+    token: String,
+}
+
+// Managed by the app: the running server, if any, and the timer events the
+// timer window publishes for WebSocket clients
+pub struct ApiServer {
+    running: Mutex<Option<RunningApi>>,
+    events: broadcast::Sender<String>,
+}
+
+struct RunningApi {
+    settings: ApiSettings,
+    shutdown: watch::Sender<()>, // dropped to stop the server
+    task: tauri::async_runtime::JoinHandle<()>,
+}
+
+// Shared by the requests of one running server
+struct ApiState {
+    app: tauri::AppHandle,
+    token: String,
+    events: broadcast::Sender<String>,
+    shutdown: watch::Receiver<()>,
+}
+
+#[derive(Debug, Deserialize)]
+struct TokenQuery {
+    token: Option<String>,
+}
+
+#[derive(Debug, Deserialize, Default)]
+struct TimeBody {
+    duration: Option<String>,
+    seconds: Option<u32>,
+}
+
+#[derive(Debug, Deserialize)]
+struct PresetBody {
+    preset: serde_json::Value, // 1-based number or label
+}
+
+// Set up the event relay; the server itself starts once the timer window
+// passes the settings to configure_api
+pub fn init(app: &tauri::AppHandle) {
+    let (events, _) = broadcast::channel(EVENT_BUFFER);
+    let relay = events.clone();
+    app.listen("api-event", move |event| {
+        // No clients connected is not an error
+        let _ = relay.send(event.payload().to_string());
+    });
+    app.manage(ApiServer {
+        running: Mutex::new(None),
+        events,
+    });
+}
+
+// Start, restart or stop the server to match the settings. Calls with the
+// settings already in effect change nothing.
+#[tauri::command]
+pub async fn configure_api(
+    app: tauri::AppHandle,
+    server: tauri::State<'_, ApiServer>,
+    settings: ApiSettings,
+) -> Result<(), String> {
+    let mut running = server.running.lock().await;
+    match running.as_ref() {
+        Some(current) if current.settings == settings => return Ok(()),
+        None if !settings.enabled => return Ok(()),
+        _ => {}
+    }
+
+    if let Some(previous) = running.take() {
+        println!("Stopping local API on port {}", previous.settings.port);
+        drop(previous.shutdown);
+        if tokio::time::timeout(SHUTDOWN_TIMEOUT, previous.task).await.is_err() {
+            eprintln!("Local API did not stop in time");
+        }
+    }
+
+    if !settings.enabled {
+        return Ok(());
+    }
+    if settings.token.is_empty() {
+        return Err("The local API needs a token".to_string());
+    }
+
+    let listener = tokio::net::TcpListener::bind((Ipv4Addr::LOCALHOST, settings.port))
+        .await
+        .map_err(|e| format!("Port {} is not available: {}", settings.port, e))?;
+    println!("Local API listening on 127.0.0.1:{}", settings.port);
+
+    let (shutdown, shutdown_signal) = watch::channel(());
+    let state = Arc::new(ApiState {
+        app,
+        token: settings.token.clone(),
+        events: server.events.clone(),
+        shutdown: shutdown_signal.clone(),
+    });
+
+    let router = Router::new()
+        .route("/status", get(status))
+        .route("/start", post(start))
+        .route("/pause", post(pause))
+        .route("/reset", post(reset))
+        .route("/time", post(set_time))
+        .route("/preset", post(select_preset))
+        .route("/events", get(events))
+        .route_layer(middleware::from_fn_with_state(state.clone(), authorize))
+        .with_state(state);
+
+    let task = tauri::async_runtime::spawn(async move {
+        let mut signal = shutdown_signal;
+        let stopped = async move {
+            let _ = signal.changed().await;
+        };
+        if let Err(e) = axum::serve(listener, router).with_graceful_shutdown(stopped).await {
+            eprintln!("Local API stopped with an error: {}", e);
+        }
+    });
+
+    *running = Some(RunningApi { settings, shutdown, task });
+    Ok(())
+}
+
+// Refuse requests without the right token
+async fn authorize(
+    State(state): State<Arc<ApiState>>,
+    Query(query): Query<TokenQuery>,
+    headers: HeaderMap,
+    request: Request,
+    next: Next,
+) -> Response {
+    let bearer = headers
+        .get(header::AUTHORIZATION)
+        .and_then(|value| value.to_str().ok())
+        .and_then(|value| value.strip_prefix("Bearer "));
+    let token = bearer.or(query.token.as_deref()).unwrap_or("");
+
+    if !cli::same_token(token, &state.token) {
+        return error_response(StatusCode::UNAUTHORIZED, "Missing or wrong token");
+    }
+    next.run(request).await
+}
+
+async fn status(State(state): State<Arc<ApiState>>) -> Response {
+    run_command(&state, vec!["status".to_string()]).await
+}
+
+async fn start(State(state): State<Arc<ApiState>>, body: Bytes) -> Response {
+    let body: TimeBody = match parse_body(&body) {
+        Ok(body) => body,
+        Err(response) => return response,
+    };
+    let mut args = vec!["start".to_string()];
+    args.extend(duration_arg(&body));
+    run_command(&state, args).await
+}
+
+async fn pause(State(state): State<Arc<ApiState>>) -> Response {
+    run_command(&state, vec!["pause".to_string()]).await
+}
+
+async fn reset(State(state): State<Arc<ApiState>>) -> Response {
+    run_command(&state, vec!["reset".to_string()]).await
+}
+
+async fn set_time(State(state): State<Arc<ApiState>>, body: Bytes) -> Response {
+    let body: TimeBody = match parse_body(&body) {
+        Ok(body) => body,
+        Err(response) => return response,
+    };
+    let Some(duration) = duration_arg(&body) else {
+        return error_response(StatusCode::BAD_REQUEST, "Give a duration or seconds");
+    };
+    run_command(&state, vec!["set".to_string(), duration]).await
+}
+
+async fn select_preset(State(state): State<Arc<ApiState>>, body: Bytes) -> Response {
+    let body: PresetBody = match serde_json::from_slice(&body) {
+        Ok(body) => body,
+        Err(e) => return error_response(StatusCode::BAD_REQUEST, &format!("Invalid body: {}", e)),
+    };
+    let preset = match body.preset {
+        serde_json::Value::Number(number) => number.to_string(),
+        serde_json::Value::String(label) => label,
+        _ => return error_response(StatusCode::BAD_REQUEST, "Give a preset number or name"),
+    };
+    run_command(&state, vec!["preset".to_string(), preset]).await
+}
+
+// Send the current status, then every timer event until either side stops
+async fn events(ws: WebSocketUpgrade, State(state): State<Arc<ApiState>>) -> Response {
+    ws.on_upgrade(move |socket| stream_events(socket, state))
+}
+
+async fn stream_events(mut socket: WebSocket, state: Arc<ApiState>) {
+    let mut events = state.events.subscribe();
+    let mut shutdown = state.shutdown.clone();
+
+    let reply = forward(&state, vec!["status".to_string()]).await;
+    if let Some(reply) = reply.filter(|reply| reply.ok) {
+        let first = format!("{{\"type\":\"tick\",\"status\":{}}}", reply.output);
+        if socket.send(Message::Text(first)).await.is_err() {
+            return;
+        }
+    }
+
+    loop {
+        tokio::select! {
+            event = events.recv() => match event {
+                Ok(text) => {
+                    if socket.send(Message::Text(text)).await.is_err() {
+                        break;
+                    }
+                }
+                Err(broadcast::error::RecvError::Lagged(_)) => continue,
+                Err(broadcast::error::RecvError::Closed) => break,
+            },
+            message = socket.recv() => match message {
+                Some(Ok(Message::Close(_))) | Some(Err(_)) | None => break,
+                Some(Ok(_)) => {}
+            },
+            _ = shutdown.changed() => break,
+        }
+    }
+}
+
+// Run a command in the timer window and reply with the timer's status
+async fn run_command(state: &ApiState, args: Vec<String>) -> Response {
+    match forward(state, args).await {
+        Some(reply) if reply.ok => ([(header::CONTENT_TYPE, "application/json")], reply.output).into_response(),
+        Some(reply) => error_response(StatusCode::BAD_REQUEST, &reply.output),
+        None => error_response(StatusCode::SERVICE_UNAVAILABLE, "The timer window is not available"),
+    }
+}
+
+async fn forward(state: &ApiState, mut args: Vec<String>) -> Option<cli::CliReply> {
+    args.push("--json".to_string());
+    let app = state.app.clone();
+    tauri::async_runtime::spawn_blocking(move || cli::forward_command(&app, args))
+        .await
+        .ok()
+}
+
+// An empty body counts as {}
+fn parse_body<T: DeserializeOwned + Default>(body: &Bytes) -> Result<T, Response> {
+    if body.is_empty() {
+        return Ok(T::default());
+    }
+    serde_json::from_slice(body)
+        .map_err(|e| error_response(StatusCode::BAD_REQUEST, &format!("Invalid body: {}", e)))
+}
+
+// The duration to pass on the command line, if the body has one
+fn duration_arg(body: &TimeBody) -> Option<String> {
+    match (&body.duration, body.seconds) {
+        (Some(duration), _) => Some(duration.clone()),
+        (None, Some(seconds)) => Some(format!("{}s", seconds)),
+        (None, None) => None,
+    }
+}
+
+fn error_response(status: StatusCode, message: &str) -> Response {
+    (status, Json(serde_json::json!({ "error": message }))).into_response()
+}
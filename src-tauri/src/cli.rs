@@ -0,0 +1,307 @@
+// Command-line control: `timebar start 25m`, `timebar status --json`...
+//
+// A launch with arguments opens no window. It sends the arguments to the
+// running instance over a loopback socket, prints the reply and exits. The
+// running instance hands each command to the timer window, which parses and
+// runs it and answers with a "cli-reply-<id>" event. The local API (api.rs)
+// forwards its requests the same way.
+//
+// Any local process can reach a loopback port, so every command carries a
+// secret the running instance keeps in the app data directory. Only the
+// user who can read that file, i.e. the one running Timebar, gets a command
+// through.
+
+use std::io::{BufRead, BufReader, Read, Write};
+use std::net::{Ipv4Addr, SocketAddr, TcpListener, TcpStream};
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::time::{Duration, SystemTime, UNIX_EPOCH};
+
+use serde::{Deserialize, Serialize};
+use tauri::{Emitter, Listener, Manager};
+
+// Loopback port the running instance listens on for commands
+const CLI_PORT: u16 = 47615;
+
+// The secret's file, in the app data directory. The command line starts no
+// Tauri app, so the directory is found the way Tauri finds it: the data
+// directory plus the identifier from tauri.conf.json.
+const APP_IDENTIFIER: &str = "com.wroy1.timebar";
+const SECRET_FILE: &str = "cli-secret";
+
+// Longest command line accepted, so a client cannot grow the buffer forever
+const MAX_LINE_BYTES: u64 = 4096;
+
+// How long to wait for the running instance and its timer window
+const REPLY_TIMEOUT: Duration = Duration::from_secs(5);
+
+// One line sent by the command line
+#[derive(Debug, Serialize, Deserialize)]
+struct CliRequest {
+    #[serde(default)]
+    secret: String,
+    args: Vec<String>,
+}
+
+// One line sent back: printed to stdout, or to stderr on failure
+#[derive(Debug, Serialize, Deserialize)]
+pub(crate) struct CliReply {
+    pub ok: bool,
+    pub output: String,
+}
+
+// Command handed to the timer window
+#[derive(Debug, Serialize, Clone)]
+struct CliCommand {
+    id: u64,
+    args: Vec<String>,
+}
+
+static NEXT_COMMAND_ID: AtomicU64 = AtomicU64::new(1);
+
+impl CliReply {
+    fn failure(output: impl Into<String>) -> Self {
+        CliReply { ok: false, output: output.into() }
+    }
+}
+
+// Arguments after the program name if this launch is a command, None for a
+// normal launch. macOS may add a "-psn_..." process serial number.
+pub fn command_args() -> Option<Vec<String>> {
+    let args: Vec<String> = std::env::args()
+        .skip(1)
+        .filter(|arg| !arg.starts_with("-psn_"))
+        .collect();
+    if args.is_empty() {
+        None
+    } else {
+        Some(args)
+    }
+}
+
+// Send a command to the running instance and print its reply. Returns the
+// process exit code: 0 on success, 1 if the command failed, 2 if Timebar
+// could not be reached.
+pub fn run_client(args: Vec<String>) -> i32 {
+    attach_console();
+    match send_command(args) {
+        Ok(reply) if reply.ok => {
+            println!("{}", reply.output);
+            0
+        }
+        Ok(reply) => {
+            eprintln!("{}", reply.output);
+            1
+        }
+        Err(e) => {
+            eprintln!("{}", e);
+            2
+        }
+    }
+}
+
+fn send_command(args: Vec<String>) -> Result<CliReply, String> {
+    // No secret yet means Timebar has never run for this user
+    let secret = std::fs::read_to_string(secret_path()?)
+        .map_err(|_| "Timebar is not running".to_string())?;
+
+    let address = SocketAddr::from((Ipv4Addr::LOCALHOST, CLI_PORT));
+    let mut stream = TcpStream::connect_timeout(&address, REPLY_TIMEOUT)
+        .map_err(|_| "Timebar is not running".to_string())?;
+    stream.set_read_timeout(Some(REPLY_TIMEOUT * 2)).map_err(|e| e.to_string())?;
+
+    let request = serde_json::to_string(&CliRequest { secret: secret.trim().to_string(), args }).map_err(|e| e.to_string())?;
+    writeln!(stream, "{}", request).map_err(|e| format!("Failed to send command: {}", e))?;
+
+    let mut line = String::new();
+    BufReader::new(&stream)
+        .read_line(&mut line)
+        .map_err(|e| format!("No reply from Timebar: {}", e))?;
+    serde_json::from_str(&line).map_err(|e| format!("Invalid reply from Timebar: {}", e))
+}
+
+// Accept commands from the command line on a background thread. Only one
+// instance can own the port; a second one simply goes without.
+pub fn start_server(app: tauri::AppHandle) {
+    let secret = match load_secret() {
+        Ok(secret) => secret,
+        Err(e) => {
+            eprintln!("Command-line control unavailable: {}", e);
+            return;
+        }
+    };
+
+    let listener = match TcpListener::bind((Ipv4Addr::LOCALHOST, CLI_PORT)) {
+        Ok(listener) => listener,
+        Err(e) => {
+            eprintln!("Command-line control unavailable on port {}: {}", CLI_PORT, e);
+            return;
+        }
+    };
+    println!("Listening for command-line control on port {}", CLI_PORT);
+
+    std::thread::spawn(move || {
+        for stream in listener.incoming() {
+            match stream {
+                Ok(stream) => {
+                    let app = app.clone();
+                    let secret = secret.clone();
+                    std::thread::spawn(move || handle_client(&app, &secret, stream));
+                }
+                Err(e) => eprintln!("Failed to accept command-line connection: {}", e),
+            }
+        }
+    });
+}
+
+fn handle_client(app: &tauri::AppHandle, secret: &str, mut stream: TcpStream) {
+    let _ = stream.set_read_timeout(Some(REPLY_TIMEOUT));
+
+    let mut line = String::new();
+    let reply = match BufReader::new((&stream).take(MAX_LINE_BYTES)).read_line(&mut line) {
+        Ok(_) if !line.ends_with('\n') && line.len() as u64 >= MAX_LINE_BYTES => {
+            CliReply::failure("Command too long")
+        }
+        Ok(_) => match serde_json::from_str::<CliRequest>(&line) {
+            Ok(request) if !same_token(&request.secret, secret) => {
+                CliReply::failure("Command refused: the secret does not match this Timebar")
+            }
+            Ok(request) => forward_command(app, request.args),
+            Err(e) => CliReply::failure(format!("Invalid command: {}", e)),
+        },
+        Err(e) => CliReply::failure(format!("Failed to read command: {}", e)),
+    };
+
+    match serde_json::to_string(&reply) {
+        Ok(text) => {
+            if let Err(e) = writeln!(stream, "{}", text) {
+                eprintln!("Failed to send command-line reply: {}", e);
+            }
+        }
+        Err(e) => eprintln!("Failed to serialize command-line reply: {}", e),
+    }
+}
+
+// Hand a command to the timer window and wait for its reply. Blocks, so
+// async callers run it on a blocking thread.
+pub(crate) fn forward_command(app: &tauri::AppHandle, args: Vec<String>) -> CliReply {
+    println!("Forwarding command to the timer window: {:?}", args);
+    let Some(window) = app.get_webview_window("main") else {
+        return CliReply::failure("Timer window not found");
+    };
+
+    let id = NEXT_COMMAND_ID.fetch_add(1, Ordering::Relaxed);
+    let (sender, receiver) = std::sync::mpsc::channel();
+    let listener_id = app.once(format!("cli-reply-{}", id), move |event| {
+        let _ = sender.send(serde_json::from_str::<CliReply>(event.payload()));
+    });
+
+    if let Err(e) = window.emit("cli-command", CliCommand { id, args }) {
+        app.unlisten(listener_id);
+        return CliReply::failure(format!("Failed to emit cli-command: {:?}", e));
+    }
+
+    match receiver.recv_timeout(REPLY_TIMEOUT) {
+        Ok(Ok(reply)) => reply,
+        Ok(Err(e)) => CliReply::failure(format!("Invalid reply from the timer window: {}", e)),
+        Err(_) => {
+            app.unlisten(listener_id);
+            CliReply::failure("The timer window did not reply")
+        }
+    }
+}
+
+fn secret_path() -> Result<PathBuf, String> {
+    dirs::data_dir()
+        .map(|dir| dir.join(APP_IDENTIFIER).join(SECRET_FILE))
+        .ok_or_else(|| "No app data directory for this user".to_string())
+}
+
+// The saved secret, or a new one written where only this user can read it.
+// A saved secret others could read may have leaked, so it is replaced.
+fn load_secret() -> Result<String, String> {
+    let path = secret_path()?;
+    if let Ok(secret) = std::fs::read_to_string(&path) {
+        if !secret.trim().is_empty() && is_owner_only(&path) {
+            return Ok(secret.trim().to_string());
+        }
+        std::fs::remove_file(&path).map_err(|e| format!("Failed to replace {}: {}", path.display(), e))?;
+    }
+
+    if let Some(dir) = path.parent() {
+        std::fs::create_dir_all(dir).map_err(|e| format!("Failed to create {}: {}", dir.display(), e))?;
+    }
+    let secret = generate_secret();
+    let mut options = std::fs::OpenOptions::new();
+    // Only a file created here gets the owner-only mode
+    options.write(true).create_new(true);
+    #[cfg(unix)]
+    {
+        use std::os::unix::fs::OpenOptionsExt;
+        options.mode(0o600);
+    }
+    let mut file = options
+        .open(&path)
+        .map_err(|e| format!("Failed to write {}: {}", path.display(), e))?;
+    file.write_all(secret.as_bytes())
+        .map_err(|e| format!("Failed to write {}: {}", path.display(), e))?;
+    Ok(secret)
+}
+
+#[cfg(unix)]
+fn is_owner_only(path: &Path) -> bool {
+    use std::os::unix::fs::PermissionsExt;
+    std::fs::metadata(path)
+        .map(|metadata| metadata.permissions().mode() & 0o077 == 0)
+        .unwrap_or(false)
+}
+
+// The app data directory on Windows is already private to the user
+#[cfg(not(unix))]
+fn is_owner_only(_path: &Path) -> bool {
+    true
+}
+
+// 256 random bits as hex. Each RandomState is keyed from the system's random
+// source, so no extra crate is needed.
+fn generate_secret() -> String {
+    use std::hash::{BuildHasher, Hasher};
+
+    let nanos = SystemTime::now().duration_since(UNIX_EPOCH).map(|d| d.as_nanos()).unwrap_or(0);
+    (0..4)
+        .map(|part| {
+            let mut hasher = std::collections::hash_map::RandomState::new().build_hasher();
+            hasher.write_u128(nanos);
+            hasher.write_u32(part);
+            hasher.write_u32(std::process::id());
+            format!("{:016x}", hasher.finish())
+        })
+        .collect()
+}
+
+// Compare without stopping at the first difference, so timing reveals nothing
+pub(crate) fn same_token(given: &str, expected: &str) -> bool {
+    given.len() == expected.len()
+        && given
+            .bytes()
+            .zip(expected.bytes())
+            .fold(0u8, |diff, (a, b)| diff | (a ^ b))
+            == 0
+}
+
+// Release builds on Windows have no console of their own; borrow the one of
+// the terminal the command was typed in so the reply is visible
+#[cfg(windows)]
+fn attach_console() {
+    #[link(name = "kernel32")]
+    extern "system" {
+        fn AttachConsole(process_id: u32) -> i32;
+    }
+    const ATTACH_PARENT_PROCESS: u32 = u32::MAX;
+    unsafe {
+        AttachConsole(ATTACH_PARENT_PROCESS);
+    }
+}
+
+#[cfg(not(windows))]
+fn attach_console() {}
@@ -0,0 +1,119 @@
+// Lifecycle hooks: run a shell command or POST to a URL when the timer
+// starts, pauses, completes... The timer window fills in the templates (see
+// hooks.ts); these commands only run the result and summarize the outcome.
+
+use std::collections::HashMap;
+use std::process::{Command, Stdio};
+use std::time::Duration;
+
+// Commands still running after this are left to finish on their own;
+// webhooks give up
+const HOOK_TIMEOUT: Duration = Duration::from_secs(30);
+
+// Longest piece of output kept in a result
+const MAX_SUMMARY_CHARS: usize = 200;
+
+// Run a command line through the system shell with the TIMEBAR_* variables
+// set. Returns the exit status and the start of the output; a non-zero exit
+// is an error.
+#[tauri::command]
+pub async fn run_hook_command(command: String, env: HashMap<String, String>) -> Result<String, String> {
+    println!("Running hook command: {}", command);
+    tauri::async_runtime::spawn_blocking(move || {
+        let child = shell_command(&command)
+            .envs(env)
+            .stdin(Stdio::null())
+            .stdout(Stdio::piped())
+            .stderr(Stdio::piped())
+            .spawn()
+            .map_err(|e| format!("Failed to start command: {}", e))?;
+
+        // Wait on another thread so a command that never ends does not hold this one
+        let (sender, receiver) = std::sync::mpsc::channel();
+        std::thread::spawn(move || {
+            let _ = sender.send(child.wait_with_output());
+        });
+
+        let output = match receiver.recv_timeout(HOOK_TIMEOUT) {
+            Ok(output) => output.map_err(|e| format!("Failed to run command: {}", e))?,
+            Err(_) => return Ok(format!("Still running after {} s", HOOK_TIMEOUT.as_secs())),
+        };
+
+        let text = if output.stdout.is_empty() { &output.stderr } else { &output.stdout };
+        let summary = format!("{}{}", describe_exit(&output.status), summarize(&String::from_utf8_lossy(text)));
+        if output.status.success() {
+            Ok(summary)
+        } else {
+            Err(summary)
+        }
+    })
+    .await
+    .map_err(|e| e.to_string())?
+}
+
+// POST a JSON body to a URL. Returns the HTTP status and the start of the
+// response; a status other than 2xx is an error.
+#[tauri::command]
+pub async fn post_hook_webhook(url: String, body: String) -> Result<String, String> {
+    println!("Posting hook webhook: {}", url);
+    let client = reqwest::Client::builder()
+        .timeout(HOOK_TIMEOUT)
+        .build()
+        .map_err(|e| e.to_string())?;
+    let response = client
+        .post(&url)
+        .header(reqwest::header::CONTENT_TYPE, "application/json")
+        .body(body)
+        .send()
+        .await
+        .map_err(|e| format!("Request failed: {}", e))?;
+
+    let status = response.status();
+    let text = response.text().await.unwrap_or_default();
+    let summary = format!("HTTP {}{}", status.as_u16(), summarize(&text));
+    if status.is_success() {
+        Ok(summary)
+    } else {
+        Err(summary)
+    }
+}
+
+#[cfg(windows)]
+fn shell_command(command: &str) -> Command {
+    use std::os::windows::process::CommandExt;
+    const CREATE_NO_WINDOW: u32 = 0x0800_0000;
+
+    // Delayed expansion: !TIMEBAR_NAME! is read after the line is parsed, so
+    // its value is never taken as cmd syntax
+    let mut shell = Command::new("cmd");
+    shell.args(["/V:ON", "/C", command]).creation_flags(CREATE_NO_WINDOW);
+    shell
+}
+
+#[cfg(not(windows))]
+fn shell_command(command: &str) -> Command {
+    let mut shell = Command::new("sh");
+    shell.args(["-c", command]);
+    shell
+}
+
+fn describe_exit(status: &std::process::ExitStatus) -> String {
+    match status.code() {
+        Some(code) => format!("Exit code {}", code),
+        None => "Stopped by a signal".to_string(),
+    }
+}
+
+// ": first line of the output", shortened; empty if there is no output
+fn summarize(text: &str) -> String {
+    let line = text.lines().map(str::trim).find(|line| !line.is_empty()).unwrap_or("");
+    if line.is_empty() {
+        return String::new();
+    }
+    if line.chars().count() > MAX_SUMMARY_CHARS {
+        let short: String = line.chars().take(MAX_SUMMARY_CHARS).collect();
+        format!(": {}…", short)
+    } else {
+        format!(": {}", line)
+    }
+}
@@ -1,43 +1,62 @@
 use tauri::{Emitter, Manager, PhysicalPosition};
 use serde::{Deserialize, Serialize};
 
+mod api;
+mod cli;
+mod hooks;
+mod tray;
+
 #[derive(Debug, Serialize, Deserialize)]
 struct WindowPosition {
     x: i32,
     y: i32,
 }
 
-#[derive(Debug, Serialize, Deserialize, Clone)]
-struct PresetTime {
-    seconds: i32,
-    label: String,
+// One entry of the tray menu. The frontend builds the menu from its action
+// registry (see trayMenu.ts); item ids are actions, e.g. "applyPreset:2".
+#[derive(Debug, Deserialize)]
+#[serde(tag = "kind", rename_all = "camelCase")]
+enum MenuEntry {
+    Item {
+        id: String,
+        label: String,
+        #[serde(default)]
+        checked: Option<bool>,
+    },
+    Separator,
+    Submenu {
+        label: String,
+        items: Vec<MenuEntry>,
+    },
 }
 
-// Get screen dimensions and calculate position ON TOP of taskbar
-#[tauri::command]
-async fn get_default_position(window: tauri::WebviewWindow) -> Result<WindowPosition, String> {
-    // Get primary monitor
-    let monitor = window.primary_monitor()
-        .map_err(|e| format!("Failed to get monitor: {}", e))?
-        .ok_or("No monitor found")?;
-    
-    let size = monitor.size();
-    let position = monitor.position();
-    
-    let window_width = 400;
-    let window_height = 48;
-    
-    // Simple: position at the bottom of screen
-    // Center horizontally, at the very bottom
-    let x = position.x + ((size.width as i32 - window_width) / 2);
-    let y = position.y + size.height as i32 - window_height;
-    
-    println!("Screen size: {}x{}, position: ({}, {})", size.width, size.height, position.x, position.y);
-    println!("Calculated window position: ({}, {})", x, y);
-    
-    Ok(WindowPosition { x, y })
+// A completion notification button pressed for one timer
+#[derive(Debug, Serialize, Clone)]
+struct NotificationAction {
+    action: String,
+    id: String,
 }
 
+// A user sound file copied into the app's sounds folder
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct ImportedSound {
+    file: String,
+    name: String,
+}
+
+// Audio formats accepted as completion sounds
+const SOUND_EXTENSIONS: [&str; 3] = ["wav", "mp3", "ogg"];
+
+// Larger files are refused; alarm sounds are short
+const MAX_SOUND_FILE_BYTES: u64 = 10 * 1024 * 1024;
+
+// Buttons on the completion notification: (action id, label)
+const NOTIFICATION_ACTIONS: [(&str, &str); 3] = [
+    ("restart", "Restart"),
+    ("snooze", "Snooze 5 min"),
+    ("dismiss", "Dismiss"),
+];
+
 // Set window position
 #[tauri::command]
 async fn set_window_position(window: tauri::WebviewWindow, x: i32, y: i32) -> Result<(), String> {
@@ -90,6 +109,8 @@ async fn open_preset_settings(app: tauri::AppHandle) -> Result<(), String> {
     .resizable(false)
     .center()
     .always_on_top(true)
+    // Let the webview handle HTML5 drag and drop (preset reordering)
+    .disable_drag_drop_handler()
     .build()
     .map_err(|e| format!("Failed to create settings window: {}", e))?;
     
@@ -99,56 +120,343 @@ async fn open_preset_settings(app: tauri::AppHandle) -> Result<(), String> {
     Ok(())
 }
 
-// Rebuild tray menu with dynamic presets
+// Open session statistics window
 #[tauri::command]
-async fn rebuild_tray_menu(app: tauri::AppHandle, presets: Vec<PresetTime>) -> Result<(), String> {
-    println!("Rebuilding tray menu with {} presets", presets.len());
+async fn open_stats_window(app: tauri::AppHandle) -> Result<(), String> {
+    println!("Opening statistics window");
     
-    // Get the tray instance
-    let tray = app.tray_by_id("main-tray").ok_or("Tray not found")?;
-    
-    // Create theme submenu (same as before)
-    let theme_submenu = tauri::menu::SubmenuBuilder::new(&app, "Themes")
-        .text("theme_blue", "Ocean Blue")
-        .text("theme_green", "Forest Green")
-        .text("theme_purple", "Sunset Purple")
-        .text("theme_orange", "Fire Orange")
-        .text("theme_red", "Cherry Red")
-        .text("theme_dark", "Dark Matter")
-        .text("theme_light", "Sky Light")
-        .separator()
-        .text("theme_dynamic", "Dynamic (10 Colors)")
-        .text("theme_transparent", "Crystal Clear")
-        .build()
-        .map_err(|e| e.to_string())?;
-    
-    // Build menu with dynamic presets
-    let mut menu_builder = tauri::menu::MenuBuilder::new(&app)
-        .text("show", "Show Timer")
-        .separator();
-    
-    // Add preset menu items dynamically
-    for (index, preset) in presets.iter().enumerate() {
-        let menu_id = format!("preset_{}", index);
-        let menu_label = format!("{} - {}", index + 1, preset.label);
-        menu_builder = menu_builder.text(menu_id, menu_label);
+    // Check if statistics window already exists
+    if let Some(window) = app.get_webview_window("stats") {
+        println!("Statistics window already exists, focusing it");
+        window.set_focus().map_err(|e| e.to_string())?;
+        window.show().map_err(|e| e.to_string())?;
+        return Ok(());
     }
     
-    // Add the rest of the menu
-    let new_menu = menu_builder
-        .separator()
-        .text("toggle_mode", "Switch Mode (Countdown ↔ Stopwatch)")
-        .text("settings", "Custom Time (MM:SS or HH:MM:SS)")
-        .text("customize_presets", "Customize Presets...")
-        .separator()
-        .item(&theme_submenu)
-        .separator()
-        .text("quit", "Exit")
-        .build()
-        .map_err(|e| e.to_string())?;
+    // Create new statistics window
+    println!("Creating new statistics window");
+    let window = tauri::WebviewWindowBuilder::new(
+        &app,
+        "stats",
+        tauri::WebviewUrl::App("stats.html".into())
+    )
+    .title("Statistics")
+    .inner_size(500.0, 680.0)
+    .resizable(false)
+    .center()
+    .always_on_top(true)
+    .build()
+    .map_err(|e| format!("Failed to create statistics window: {}", e))?;
+    
+    println!("Statistics window created successfully");
+    window.show().map_err(|e| e.to_string())?;
+    
+    Ok(())
+}
+
+// Open the stopwatch laps window
+#[tauri::command]
+async fn open_laps_window(app: tauri::AppHandle) -> Result<(), String> {
+    println!("Opening laps window");
+    
+    // Check if laps window already exists
+    if let Some(window) = app.get_webview_window("laps") {
+        println!("Laps window already exists, focusing it");
+        window.set_focus().map_err(|e| e.to_string())?;
+        window.show().map_err(|e| e.to_string())?;
+        return Ok(());
+    }
+    
+    // Create new laps window
+    println!("Creating new laps window");
+    let window = tauri::WebviewWindowBuilder::new(
+        &app,
+        "laps",
+        tauri::WebviewUrl::App("laps.html".into())
+    )
+    .title("Laps")
+    .inner_size(460.0, 560.0)
+    .resizable(false)
+    .center()
+    .always_on_top(true)
+    .build()
+    .map_err(|e| format!("Failed to create laps window: {}", e))?;
+    
+    println!("Laps window created successfully");
+    window.show().map_err(|e| e.to_string())?;
+    
+    Ok(())
+}
+
+// Show a desktop notification for a finished timer. Pressing one of its
+// buttons emits "notification-action" to the main window.
+#[tauri::command]
+async fn show_completion_notification(app: tauri::AppHandle, title: String, body: String, timer_id: String, actions: bool) -> Result<(), String> {
+    println!("Showing completion notification: {}", title);
+    show_notification(&app, &title, &body, timer_id, actions)
+}
+
+#[cfg(windows)]
+fn show_notification(app: &tauri::AppHandle, title: &str, body: &str, timer_id: String, actions: bool) -> Result<(), String> {
+    use tauri_winrt_notification::Toast;
+    
+    // Dev builds are not registered with Windows, so borrow PowerShell's app id
+    let app_id = if tauri::is_dev() {
+        Toast::POWERSHELL_APP_ID.to_string()
+    } else {
+        app.config().identifier.clone()
+    };
+    
+    let mut toast = Toast::new(&app_id).title(title).text1(body);
+    if actions {
+        for (action, label) in NOTIFICATION_ACTIONS {
+            toast = toast.add_button(label, action);
+        }
+    }
+    
+    let app_handle = app.clone();
+    toast
+        .on_activated(move |action| {
+            if let Some(action) = action {
+                emit_notification_action(&app_handle, &action, &timer_id);
+            }
+            Ok(())
+        })
+        .show()
+        .map_err(|e| format!("Failed to show notification: {}", e))
+}
+
+#[cfg(not(windows))]
+fn show_notification(app: &tauri::AppHandle, title: &str, body: &str, timer_id: String, actions: bool) -> Result<(), String> {
+    let mut notification = notify_rust::Notification::new();
+    notification.appname("Timebar").summary(title).body(body);
+    if actions {
+        for (action, label) in NOTIFICATION_ACTIONS {
+            notification.action(action, label);
+        }
+    }
+    
+    let handle = notification
+        .show()
+        .map_err(|e| format!("Failed to show notification: {}", e))?;
+    
+    // Only XDG desktops report button presses; wait for one off the command thread
+    #[cfg(not(target_os = "macos"))]
+    {
+        let app_handle = app.clone();
+        std::thread::spawn(move || {
+            handle.wait_for_action(|action| emit_notification_action(&app_handle, action, &timer_id));
+        });
+    }
+    #[cfg(target_os = "macos")]
+    let _ = (handle, app, timer_id);
+    
+    Ok(())
+}
+
+// Forward a notification button press to the main window
+fn emit_notification_action(app: &tauri::AppHandle, action: &str, timer_id: &str) {
+    // Closing the notification is reported as an action too; ignore it
+    if !NOTIFICATION_ACTIONS.iter().any(|(id, _)| *id == action) {
+        return;
+    }
+    
+    println!("Notification action: {} for {}", action, timer_id);
+    if let Some(window) = app.get_webview_window("main") {
+        let command = NotificationAction {
+            action: action.to_string(),
+            id: timer_id.to_string(),
+        };
+        if let Err(e) = window.emit("notification-action", command) {
+            println!("Failed to emit notification-action: {:?}", e);
+        }
+    }
+}
+
+// Folder holding imported sound files, created on first use
+fn sounds_dir(app: &tauri::AppHandle) -> Result<std::path::PathBuf, String> {
+    let dir = app.path().app_data_dir()
+        .map_err(|e| format!("Failed to get app data folder: {}", e))?
+        .join("sounds");
+    std::fs::create_dir_all(&dir).map_err(|e| format!("Failed to create sounds folder: {}", e))?;
+    Ok(dir)
+}
+
+// Whether a path has one of the accepted audio extensions
+fn is_sound_file(path: &std::path::Path) -> bool {
+    path.extension()
+        .and_then(|ext| ext.to_str())
+        .map(|ext| SOUND_EXTENSIONS.contains(&ext.to_lowercase().as_str()))
+        .unwrap_or(false)
+}
+
+// Resolve a file name inside the sounds folder, refusing anything that could
+// point elsewhere
+fn sound_file_path(app: &tauri::AppHandle, file: &str) -> Result<std::path::PathBuf, String> {
+    let path = std::path::Path::new(file);
+    if path.file_name().and_then(|name| name.to_str()) != Some(file) || !is_sound_file(path) {
+        return Err(format!("Invalid sound file name: {}", file));
+    }
+    Ok(sounds_dir(app)?.join(file))
+}
+
+// Let the user pick an audio file and copy it into the sounds folder.
+// Returns None if the picker was cancelled.
+#[tauri::command]
+async fn import_sound_file(app: tauri::AppHandle) -> Result<Option<ImportedSound>, String> {
+    use tauri_plugin_dialog::DialogExt;
+    
+    let picked = app.dialog()
+        .file()
+        .set_title("Choose a completion sound")
+        .add_filter("Audio", &SOUND_EXTENSIONS)
+        .blocking_pick_file();
+    let Some(picked) = picked else {
+        return Ok(None);
+    };
+    
+    let source = picked.into_path().map_err(|e| format!("Invalid file path: {}", e))?;
+    if !is_sound_file(&source) {
+        return Err("Only WAV, MP3 and OGG files are supported".to_string());
+    }
+    
+    let size = std::fs::metadata(&source).map_err(|e| format!("Failed to read file: {}", e))?.len();
+    if size > MAX_SOUND_FILE_BYTES {
+        return Err("The file is larger than 10 MB".to_string());
+    }
+    
+    let file = source.file_name()
+        .and_then(|name| name.to_str())
+        .ok_or("Invalid file name")?
+        .to_string();
+    let name = source.file_stem()
+        .and_then(|stem| stem.to_str())
+        .unwrap_or(&file)
+        .to_string();
+    
+    std::fs::copy(&source, sound_file_path(&app, &file)?)
+        .map_err(|e| format!("Failed to copy sound file: {}", e))?;
+    
+    println!("Imported sound file: {}", file);
+    Ok(Some(ImportedSound { file, name }))
+}
+
+// Read an imported sound file; the bytes reach the frontend as an ArrayBuffer
+#[tauri::command]
+async fn read_sound_file(app: tauri::AppHandle, file: String) -> Result<tauri::ipc::Response, String> {
+    let data = std::fs::read(sound_file_path(&app, &file)?)
+        .map_err(|e| format!("Failed to read sound file: {}", e))?;
+    Ok(tauri::ipc::Response::new(data))
+}
+
+// Delete an imported sound file that is no longer used
+#[tauri::command]
+async fn remove_sound_file(app: tauri::AppHandle, file: String) -> Result<(), String> {
+    let path = sound_file_path(&app, &file)?;
+    if path.exists() {
+        std::fs::remove_file(&path).map_err(|e| format!("Failed to delete sound file: {}", e))?;
+    }
+    println!("Removed sound file: {}", file);
+    Ok(())
+}
+
+// Ask where to save a JSON file and write it. Returns false if cancelled.
+#[tauri::command]
+async fn save_json_file(app: tauri::AppHandle, title: String, default_name: String, contents: String) -> Result<bool, String> {
+    use tauri_plugin_dialog::DialogExt;
+    
+    let picked = app.dialog()
+        .file()
+        .set_title(title)
+        .set_file_name(default_name)
+        .add_filter("JSON", &["json"])
+        .blocking_save_file();
+    let Some(picked) = picked else {
+        return Ok(false);
+    };
+    
+    let path = picked.into_path().map_err(|e| format!("Invalid file path: {}", e))?;
+    std::fs::write(&path, contents).map_err(|e| format!("Failed to write file: {}", e))?;
+    println!("Saved {}", path.display());
+    Ok(true)
+}
+
+// Ask where to save a CSV file and write it. Returns false if cancelled.
+#[tauri::command]
+async fn save_csv_file(app: tauri::AppHandle, title: String, default_name: String, contents: String) -> Result<bool, String> {
+    use tauri_plugin_dialog::DialogExt;
+    
+    let picked = app.dialog()
+        .file()
+        .set_title(title)
+        .set_file_name(default_name)
+        .add_filter("CSV", &["csv"])
+        .blocking_save_file();
+    let Some(picked) = picked else {
+        return Ok(false);
+    };
+    
+    let path = picked.into_path().map_err(|e| format!("Invalid file path: {}", e))?;
+    std::fs::write(&path, contents).map_err(|e| format!("Failed to write file: {}", e))?;
+    println!("Saved {}", path.display());
+    Ok(true)
+}
+
+// Let the user pick a JSON file and return its text. Returns None if cancelled.
+#[tauri::command]
+async fn open_json_file(app: tauri::AppHandle, title: String) -> Result<Option<String>, String> {
+    use tauri_plugin_dialog::DialogExt;
+    
+    let picked = app.dialog()
+        .file()
+        .set_title(title)
+        .add_filter("JSON", &["json"])
+        .blocking_pick_file();
+    let Some(picked) = picked else {
+        return Ok(None);
+    };
+    
+    let path = picked.into_path().map_err(|e| format!("Invalid file path: {}", e))?;
+    let contents = std::fs::read_to_string(&path).map_err(|e| format!("Failed to read file: {}", e))?;
+    Ok(Some(contents))
+}
+
+// Native item for a menu entry; entries with a check state become check items
+fn build_menu_item(app: &tauri::AppHandle, entry: &MenuEntry) -> tauri::Result<tauri::menu::MenuItemKind<tauri::Wry>> {
+    Ok(match entry {
+        MenuEntry::Item { id, label, checked: Some(checked) } => tauri::menu::MenuItemKind::Check(
+            tauri::menu::CheckMenuItem::with_id(app, id.as_str(), label, true, *checked, None::<&str>)?,
+        ),
+        MenuEntry::Item { id, label, checked: None } => tauri::menu::MenuItemKind::MenuItem(
+            tauri::menu::MenuItem::with_id(app, id.as_str(), label, true, None::<&str>)?,
+        ),
+        MenuEntry::Separator => tauri::menu::MenuItemKind::Predefined(tauri::menu::PredefinedMenuItem::separator(app)?),
+        MenuEntry::Submenu { label, items } => {
+            let submenu = tauri::menu::Submenu::new(app, label, true)?;
+            for item in items {
+                submenu.append(&build_menu_item(app, item)?)?;
+            }
+            tauri::menu::MenuItemKind::Submenu(submenu)
+        }
+    })
+}
+
+// Replace the tray menu with the one built by the frontend
+#[tauri::command]
+async fn rebuild_tray_menu(app: tauri::AppHandle, items: Vec<MenuEntry>) -> Result<(), String> {
+    println!("Rebuilding tray menu with {} entries", items.len());
+    
+    // Get the tray instance
+    let tray = app.tray_by_id(tray::TRAY_ID).ok_or("Tray not found")?;
+    
+    let menu = tauri::menu::Menu::new(&app).map_err(|e| e.to_string())?;
+    for item in &items {
+        let item = build_menu_item(&app, item).map_err(|e| e.to_string())?;
+        menu.append(&item).map_err(|e| e.to_string())?;
+    }
     
     // Update the tray menu
-    tray.set_menu(Some(new_menu)).map_err(|e| e.to_string())?;
+    tray.set_menu(Some(menu)).map_err(|e| e.to_string())?;
     
     println!("Tray menu rebuilt successfully");
     Ok(())
@@ -156,45 +464,30 @@ async fn rebuild_tray_menu(app: tauri::AppHandle, presets: Vec<PresetTime>) -> R
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
+    // `timebar <command>` talks to the running instance instead of starting one
+    if let Some(args) = cli::command_args() {
+        std::process::exit(cli::run_client(args));
+    }
+
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_store::Builder::new().build())
         .plugin(tauri_plugin_global_shortcut::Builder::new().build())
+        .plugin(tauri_plugin_dialog::init())
         .setup(|app| {
-            // Create theme submenu
-            let theme_submenu = tauri::menu::SubmenuBuilder::new(app, "Themes")
-                .text("theme_blue", "Ocean Blue")
-                .text("theme_green", "Forest Green")
-                .text("theme_purple", "Sunset Purple")
-                .text("theme_orange", "Fire Orange")
-                .text("theme_red", "Cherry Red")
-                .text("theme_dark", "Dark Matter")
-                .text("theme_light", "Sky Light")
-                .separator()
-                .text("theme_dynamic", "Dynamic (10 Colors)")
-                .text("theme_transparent", "Crystal Clear")
-                .build()?;
+            cli::start_server(app.handle().clone());
+            api::init(app.handle());
+            tray::init(app.handle());
 
-            // Create system tray with expanded menu
-            // Note: Menu labels are static, but they trigger preset indices
-            // Users can customize what each preset does via the settings window
+            // Minimal menu until the timer window sends the full one, built
+            // from its action registry, with rebuild_tray_menu
             let tray_menu = tauri::menu::MenuBuilder::new(app)
-                .text("show", "Show Timer")
-                .separator()
-                .text("set_3min", "Preset 1 (3 min)")
-                .text("set_5min", "Preset 2 (5 min)")
-                .text("set_25min", "Preset 3 (25 min)")
-                .separator()
-                .text("toggle_mode", "Switch Mode (Countdown ↔ Stopwatch)")
-                .text("settings", "Custom Time (MM:SS or HH:MM:SS)")
-                .text("customize_presets", "Customize Presets...")
-                .separator()
-                .item(&theme_submenu)
+                .text("showWindow", "Show Timer")
                 .separator()
                 .text("quit", "Exit")
                 .build()?;
 
-            let _tray = tauri::tray::TrayIconBuilder::with_id("main-tray")
+            let _tray = tauri::tray::TrayIconBuilder::with_id(tray::TRAY_ID)
                 .icon(app.default_window_icon().unwrap().clone())
                 .tooltip("Timebar")
                 .menu(&tray_menu)
@@ -202,163 +495,21 @@ pub fn run() {
                     println!("Tray menu event: {}", event.id().as_ref());
                     let event_id = event.id().as_ref();
                     
-                    // Handle dynamic preset events
-                    if event_id.starts_with("preset_") {
-                        if let Ok(index) = event_id.strip_prefix("preset_").unwrap().parse::<usize>() {
-                            println!("Preset {} clicked", index);
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("preset-selected", index) {
-                                    println!("Failed to emit preset-selected: {:?}", e);
-                                }
-                            }
-                            return;
-                        }
+                    // Exit works even if the timer window is not responding
+                    if event_id == "quit" {
+                        println!("Quit clicked");
+                        app.exit(0);
+                        return;
                     }
                     
-                    match event_id {
-                        "show" => {
-                            println!("Show clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                let _ = window.show();
-                                let _ = window.unminimize();
-                                let _ = window.set_focus();
-                                let _ = window.set_always_on_top(true);
-                            }
-                        }
-                        "set_3min" => {
-                            println!("Preset 1 clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("preset-selected", 0) {
-                                    println!("Failed to emit preset-selected: {:?}", e);
-                                }
-                            }
-                        }
-                        "set_5min" => {
-                            println!("Preset 2 clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("preset-selected", 1) {
-                                    println!("Failed to emit preset-selected: {:?}", e);
-                                }
-                            }
-                        }
-                        "set_25min" => {
-                            println!("Preset 3 clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("preset-selected", 2) {
-                                    println!("Failed to emit preset-selected: {:?}", e);
-                                }
-                            }
-                        }
-                        "toggle_mode" => {
-                            println!("Toggle mode clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                println!("Emitting toggle-mode event");
-                                if let Err(e) = window.emit("toggle-mode", ()) {
-                                    println!("Failed to emit toggle-mode: {:?}", e);
-                                }
-                            } else {
-                                println!("Window 'main' not found!");
-                            }
-                        }
-                        "settings" => {
-                            println!("Settings clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                println!("Emitting open-settings event");
-                                if let Err(e) = window.emit("open-settings", ()) {
-                                    println!("Failed to emit open-settings: {:?}", e);
-                                }
-                            } else {
-                                println!("Window 'main' not found!");
-                            }
-                        }
-                        "theme_blue" => {
-                            println!("Theme blue clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "blue") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_green" => {
-                            println!("Theme green clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "green") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_purple" => {
-                            println!("Theme purple clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "purple") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_orange" => {
-                            println!("Theme orange clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "orange") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_red" => {
-                            println!("Theme red clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "red") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_dark" => {
-                            println!("Theme dark clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "dark") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_light" => {
-                            println!("Theme light clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "light") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_dynamic" => {
-                            println!("Theme dynamic clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "dynamic") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "theme_transparent" => {
-                            println!("Theme transparent clicked");
-                            if let Some(window) = app.get_webview_window("main") {
-                                if let Err(e) = window.emit("change-theme", "transparent") {
-                                    println!("Failed to emit change-theme: {:?}", e);
-                                }
-                            }
-                        }
-                        "customize_presets" => {
-                            println!("Customize presets clicked");
-                            let app_handle = app.clone();
-                            tauri::async_runtime::spawn(async move {
-                                if let Err(e) = open_preset_settings(app_handle).await {
-                                    eprintln!("Failed to open preset settings: {}", e);
-                                }
-                            });
-                        }
-                        "quit" => {
-                            println!("Quit clicked");
-                            app.exit(0);
-                        }
-                        _ => {
-                            println!("Unknown menu item: {}", event.id().as_ref());
+                    // Everything else is an action for the timer window, which reads
+                    // the id: "<action>" or "<action>:<arg>"
+                    if let Some(window) = app.get_webview_window("main") {
+                        if let Err(e) = window.emit("menu-action", event_id) {
+                            println!("Failed to emit menu-action: {:?}", e);
                         }
+                    } else {
+                        println!("Window 'main' not found!");
                     }
                 })
                 .build(app)?;
@@ -366,12 +517,24 @@ pub fn run() {
             Ok(())
         })
         .invoke_handler(tauri::generate_handler![
-            get_default_position,
             set_window_position,
             get_window_position,
             register_shortcut,
             open_preset_settings,
-            rebuild_tray_menu
+            open_stats_window,
+            open_laps_window,
+            show_completion_notification,
+            import_sound_file,
+            read_sound_file,
+            remove_sound_file,
+            save_json_file,
+            save_csv_file,
+            open_json_file,
+            rebuild_tray_menu,
+            api::configure_api,
+            tray::update_tray_status,
+            hooks::run_hook_command,
+            hooks::post_hook_webhook
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
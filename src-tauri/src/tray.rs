@@ -0,0 +1,119 @@
+// Tray status: the tooltip shows the time on the bar, and the icon can be a
+// progress ring, so the timer can be read while the bar is hidden behind a
+// full-screen app. The timer window sends the status (see tray.ts) at most
+// about once a second.
+
+use std::f64::consts::TAU;
+use std::sync::Mutex;
+
+use serde::Deserialize;
+use tauri::image::Image;
+use tauri::Manager;
+
+// Id of the tray icon built in lib.rs
+pub const TRAY_ID: &str = "main-tray";
+
+// Edge of the drawn icon in pixels; the tray scales it to fit
+const ICON_SIZE: u32 = 32;
+
+// Width of the ring in pixels
+const RING_WIDTH: f64 = 6.0;
+
+// Ring positions told apart, so the icon is only redrawn when the ring visibly moves
+const RING_STEPS: f64 = 60.0;
+
+type Rgba = [u8; 4];
+
+#[derive(Debug, Deserialize)]
+pub struct TrayStatus {
+    tooltip: String,
+    icon: Option<TrayIconStatus>, // None for the app icon
+}
+
+#[derive(Debug, Deserialize)]
+pub struct TrayIconStatus {
+    state: String, // "running", "paused" or "complete"
+    progress: f64, // part of the ring filled, 0 to 1
+}
+
+// Managed by the app: the icon the tray shows, so the same one is not set again
+pub struct TrayIconCache(Mutex<Option<String>>);
+
+pub fn init(app: &tauri::AppHandle) {
+    app.manage(TrayIconCache(Mutex::new(None)));
+}
+
+// Show the timer's status in the tray tooltip and icon
+#[tauri::command]
+pub async fn update_tray_status(
+    app: tauri::AppHandle,
+    cache: tauri::State<'_, TrayIconCache>,
+    status: TrayStatus,
+) -> Result<(), String> {
+    let tray = app.tray_by_id(TRAY_ID).ok_or("Tray not found")?;
+    tray.set_tooltip(Some(&status.tooltip)).map_err(|e| e.to_string())?;
+
+    let key = match &status.icon {
+        Some(icon) => format!("{}:{}", icon.state, (icon.progress.clamp(0.0, 1.0) * RING_STEPS).round()),
+        None => "app".to_string(),
+    };
+    let mut shown = cache.0.lock().map_err(|e| e.to_string())?;
+    if shown.as_deref() == Some(key.as_str()) {
+        return Ok(());
+    }
+
+    let image = match &status.icon {
+        Some(icon) => progress_icon(icon),
+        None => app.default_window_icon().ok_or("No app icon")?.clone(),
+    };
+    tray.set_icon(Some(image)).map_err(|e| e.to_string())?;
+    *shown = Some(key);
+    Ok(())
+}
+
+// A ring filling clockwise from 12 o'clock: green while running, amber with
+// a pause sign while paused, and full red once complete
+fn progress_icon(icon: &TrayIconStatus) -> Image<'static> {
+    let (fill, track): (Rgba, Rgba) = match icon.state.as_str() {
+        "paused" => ([245, 158, 11, 255], [245, 158, 11, 80]),
+        "complete" => ([239, 68, 68, 255], [239, 68, 68, 255]),
+        _ => ([16, 185, 129, 255], [255, 255, 255, 80]),
+    };
+    let progress = icon.progress.clamp(0.0, 1.0);
+
+    let centre = ICON_SIZE as f64 / 2.0;
+    let outer = centre - 1.0;
+    let inner = outer - RING_WIDTH;
+    let mut rgba = vec![0u8; (ICON_SIZE * ICON_SIZE * 4) as usize];
+
+    for y in 0..ICON_SIZE {
+        for x in 0..ICON_SIZE {
+            let dx = x as f64 + 0.5 - centre;
+            let dy = y as f64 + 0.5 - centre;
+            let distance = (dx * dx + dy * dy).sqrt();
+            if distance > outer || distance < inner {
+                continue;
+            }
+
+            // 0 at 12 o'clock, growing clockwise to 1
+            let angle = (dx.atan2(-dy) / TAU).rem_euclid(1.0);
+            set_pixel(&mut rgba, x, y, if angle < progress { fill } else { track });
+        }
+    }
+
+    // Pause sign: two bars in the middle
+    if icon.state == "paused" {
+        for y in 11..21 {
+            for x in (12..14).chain(18..20) {
+                set_pixel(&mut rgba, x, y, fill);
+            }
+        }
+    }
+
+    Image::new_owned(rgba, ICON_SIZE, ICON_SIZE)
+}
+
+fn set_pixel(rgba: &mut [u8], x: u32, y: u32, colour: Rgba) {
+    let index = ((y * ICON_SIZE + x) * 4) as usize;
+    rgba[index..index + 4].copy_from_slice(&colour);
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { AppAction, getMenuId, parseMenuId } from "./actions";
+
+describe("menu ids", () => {
+  it("reads back the action and argument", () => {
+    expect(parseMenuId(getMenuId(AppAction.SNOOZE))).toEqual({ action: AppAction.SNOOZE });
+    expect(parseMenuId(getMenuId(AppAction.ADJUST_TIME, -60))).toEqual({ action: AppAction.ADJUST_TIME, arg: "-60" });
+    expect(parseMenuId("setTheme:custom:1")).toEqual({ action: AppAction.SET_THEME, arg: "custom:1" });
+  });
+
+  it("rejects ids that are not actions", () => {
+    expect(parseMenuId("toggle")).toBeNull();
+    expect(parseMenuId(":snooze")).toBeNull();
+  });
+});
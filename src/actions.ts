@@ -0,0 +1,101 @@
+// Action registry: every command the timer window can run, with its label.
+// The tray menu, keyboard shortcuts and any other control surface name
+// actions from here and hand them to main.ts, which runs them all in one
+// place. Some actions take an argument, such as a preset index or a timer id.
+
+export enum AppAction {
+  SHOW_WINDOW = "showWindow",
+  START_PAUSE = "startPause", // argument: timer id, the focused timer if none
+  RESET = "reset", // argument: timer id
+  TOGGLE_MODE = "toggleMode",
+  SET_MODE = "setMode", // argument: timer mode
+  NEXT_PRESET = "nextPreset",
+  APPLY_PRESET = "applyPreset", // argument: preset index
+  START_SEQUENCE = "startSequence", // argument: sequence index
+  SET_TIME = "setTime", // argument: seconds
+  CUSTOM_TIME = "customTime",
+  ADD_MINUTE = "addMinute",
+  ADD_FIVE_MINUTES = "addFiveMinutes",
+  SUBTRACT_MINUTE = "subtractMinute",
+  ADJUST_TIME = "adjustTime", // argument: seconds, negative to take time off
+  SNOOZE = "snooze",
+  LAP = "lap",
+  POMODORO_START = "pomodoroStart",
+  POMODORO_SKIP = "pomodoroSkip",
+  POMODORO_END = "pomodoroEnd",
+  ADD_TIMER = "addTimer",
+  NEXT_TIMER = "nextTimer",
+  FOCUS_TIMER = "focusTimer", // argument: timer id
+  RENAME_TIMER = "renameTimer", // argument: timer id
+  REMOVE_TIMER = "removeTimer", // argument: timer id
+  TIMER_LAYOUT = "timerLayout",
+  SET_THEME = "setTheme", // argument: theme id
+  OPEN_SETTINGS = "openSettings",
+  OPEN_STATISTICS = "openStatistics",
+  OPEN_LAPS = "openLaps",
+  EXPORT_BACKUP = "exportBackup", // argument: "history" to include the history
+  IMPORT_BACKUP = "importBackup", // argument: import mode
+  QUIT = "quit" // handled by the backend
+}
+
+export interface ActionInfo {
+  label: string; // shortcut list and tray menu
+  menuLabel?: string; // longer tray menu label, if any
+}
+
+export const ACTIONS: Record<AppAction, ActionInfo> = {
+  [AppAction.SHOW_WINDOW]: { label: "Show Timer" },
+  [AppAction.START_PAUSE]: { label: "Start / Pause" },
+  [AppAction.RESET]: { label: "Reset" },
+  [AppAction.TOGGLE_MODE]: { label: "Switch Mode", menuLabel: "Switch Mode (Countdown ↔ Stopwatch)" },
+  [AppAction.SET_MODE]: { label: "Set Mode" },
+  [AppAction.NEXT_PRESET]: { label: "Next Preset" },
+  [AppAction.APPLY_PRESET]: { label: "Apply Preset" },
+  [AppAction.START_SEQUENCE]: { label: "Start Sequence" },
+  [AppAction.SET_TIME]: { label: "Set Time" },
+  [AppAction.CUSTOM_TIME]: { label: "Custom Time", menuLabel: "Custom Time (25m, 1h30m, until 14:30...)" },
+  [AppAction.ADD_MINUTE]: { label: "+1 Minute" },
+  [AppAction.ADD_FIVE_MINUTES]: { label: "+5 Minutes" },
+  [AppAction.SUBTRACT_MINUTE]: { label: "-1 Minute" },
+  [AppAction.ADJUST_TIME]: { label: "Adjust Time" },
+  [AppAction.SNOOZE]: { label: "Snooze", menuLabel: "Snooze (5 min)" },
+  [AppAction.LAP]: { label: "Lap / Split" },
+  [AppAction.POMODORO_START]: { label: "Start Cycle" },
+  [AppAction.POMODORO_SKIP]: { label: "Skip Phase" },
+  [AppAction.POMODORO_END]: { label: "End Cycle" },
+  [AppAction.ADD_TIMER]: { label: "Add Timer" },
+  [AppAction.NEXT_TIMER]: { label: "Next Timer" },
+  [AppAction.FOCUS_TIMER]: { label: "Show on Bar" },
+  [AppAction.RENAME_TIMER]: { label: "Rename..." },
+  [AppAction.REMOVE_TIMER]: { label: "Remove" },
+  [AppAction.TIMER_LAYOUT]: { label: "Switch Layout", menuLabel: "Switch Layout (Cycle ↔ Side by Side)" },
+  [AppAction.SET_THEME]: { label: "Set Theme" },
+  [AppAction.OPEN_SETTINGS]: { label: "Customize Presets..." },
+  [AppAction.OPEN_STATISTICS]: { label: "Statistics..." },
+  [AppAction.OPEN_LAPS]: { label: "Laps..." },
+  [AppAction.EXPORT_BACKUP]: { label: "Export Settings..." },
+  [AppAction.IMPORT_BACKUP]: { label: "Import Settings..." },
+  [AppAction.QUIT]: { label: "Exit" },
+};
+
+// An action to run, with its argument if it takes one
+export interface ActionRequest {
+  action: AppAction;
+  arg?: string;
+}
+
+// Tray menu ids are the action, then ":" and the argument if there is one
+export function getMenuId(action: AppAction, arg?: string | number): string {
+  return arg === undefined ? action : `${action}:${arg}`;
+}
+
+// The action behind a menu id, or null for an id that is not an action
+export function parseMenuId(id: string): ActionRequest | null {
+  const separator = id.indexOf(":");
+  const action = separator === -1 ? id : id.slice(0, separator);
+  if (!Object.values(AppAction).includes(action as AppAction)) return null;
+
+  return separator === -1
+    ? { action: action as AppAction }
+    : { action: action as AppAction, arg: id.slice(separator + 1) };
+}
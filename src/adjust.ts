@@ -0,0 +1,55 @@
+// Adjusting a running timer: time added or taken off without stopping it,
+// from the mouse wheel over the bar, shortcuts or the tray, and the snooze
+// that counts down a few more minutes after a countdown ends.
+
+export interface AdjustSettings {
+  wheel: boolean; // mouse wheel over the bar adds (up) or takes off (down) time
+  wheelStepSeconds: number; // per wheel notch
+}
+
+// Steps offered for the wheel
+export const WHEEL_STEPS = [10, 30, 60, 300];
+
+export const DEFAULT_ADJUST_SETTINGS: AdjustSettings = {
+  wheel: true,
+  wheelStepSeconds: 60,
+};
+
+// Holding Shift while scrolling moves this many steps per notch
+export const WHEEL_SHIFT_MULTIPLIER = 5;
+
+// Wheel distance of one notch; touchpads send many smaller deltas
+export const WHEEL_NOTCH_PX = 100;
+
+// Adjustments listed in the tray menu, in seconds
+export const TRAY_ADJUSTMENTS = [60, 300, -60];
+
+// Length of a snooze, from the bar, the tray, a shortcut or the notification
+export const SNOOZE_SECONDS = 5 * 60;
+
+// Merge saved adjust settings over the defaults
+export function resolveAdjustSettings(saved?: Partial<AdjustSettings>): AdjustSettings {
+  return {
+    wheel: typeof saved?.wheel === "boolean" ? saved.wheel : DEFAULT_ADJUST_SETTINGS.wheel,
+    wheelStepSeconds: WHEEL_STEPS.includes(saved?.wheelStepSeconds as number)
+      ? saved!.wheelStepSeconds!
+      : DEFAULT_ADJUST_SETTINGS.wheelStepSeconds,
+  };
+}
+
+// "1 min" or "30 s"
+export function formatStep(seconds: number): string {
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+}
+
+// "+1 min" or "-30 s"
+export function formatAdjustment(seconds: number): string {
+  return `${seconds < 0 ? "-" : "+"}${formatStep(Math.abs(seconds))}`;
+}
+
+// Whole notches in the wheel distance gathered so far, and what is left over.
+// Scrolling up (negative delta) adds time.
+export function takeWheelNotches(deltaPx: number): { notches: number; remainderPx: number } {
+  const notches = Math.trunc(deltaPx / WHEEL_NOTCH_PX);
+  return { notches: -notches, remainderPx: deltaPx - notches * WHEEL_NOTCH_PX };
+}
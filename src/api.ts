@@ -0,0 +1,60 @@
+// Local control API: an opt-in HTTP/WebSocket server bound to 127.0.0.1,
+// run by the native side. Its requests become command-line commands (see
+// cli.ts) run by the timer window, and the timer window publishes tick and
+// completion events for the WebSocket feed. Every request needs the token.
+
+import { invoke } from "@tauri-apps/api/core";
+import { TimerStatus } from "./timers";
+
+export interface ApiSettings {
+  enabled: boolean;
+  port: number;
+  token: string; // sent as "Authorization: Bearer <token>" or "?token=<token>"
+}
+
+export const DEFAULT_API_PORT = 47616;
+
+export const DEFAULT_API_SETTINGS: ApiSettings = {
+  enabled: false,
+  port: DEFAULT_API_PORT,
+  token: "",
+};
+
+// Ports below this need elevated rights on some systems
+export const MIN_API_PORT = 1024;
+export const MAX_API_PORT = 65535;
+
+// Event sent to WebSocket clients
+export enum ApiEventType {
+  TICK = "tick", // the time shown on the bar or the timer's state changed
+  COMPLETE = "complete" // a countdown reached zero
+}
+
+export interface ApiEvent {
+  type: ApiEventType;
+  status: TimerStatus;
+}
+
+// Fill in missing or invalid API settings from the defaults
+export function resolveApiSettings(saved?: Partial<ApiSettings>): ApiSettings {
+  const port = saved?.port;
+  return {
+    enabled: typeof saved?.enabled === "boolean" ? saved.enabled : DEFAULT_API_SETTINGS.enabled,
+    port: typeof port === "number" && Number.isInteger(port) && port >= MIN_API_PORT && port <= MAX_API_PORT
+      ? port
+      : DEFAULT_API_PORT,
+    token: typeof saved?.token === "string" ? saved.token : DEFAULT_API_SETTINGS.token,
+  };
+}
+
+// Random 32-character hex token
+export function createApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Start, restart or stop the server to match the settings. Rejects with a
+// user-facing message, e.g. when the port is taken.
+export function configureApi(settings: ApiSettings): Promise<void> {
+  return invoke<void>("configure_api", { settings });
+}
@@ -0,0 +1,198 @@
+// Backup bundle: presets, sequences, themes, shortcuts and the other settings, plus
+// optionally the session history, in one versioned JSON file. Used by the
+// settings window and by the tray's Backup menu (through the timer window).
+//
+// Sound files stay on the machine they were added on, so the list of custom
+// sounds is neither exported nor replaced on import. The same goes for the
+// local API settings, which hold an access token, for the hooks, which run
+// commands on this machine, and for the window placement, which names its
+// monitors.
+
+import { invoke } from "@tauri-apps/api/core";
+import { emit } from "@tauri-apps/api/event";
+import { Store } from "@tauri-apps/plugin-store";
+import { AppSettings, SETTINGS_VERSION, readSettings, updateSettings, parseSettings } from "./config";
+import { SessionRecord, loadSessions, saveSessions, restoreSessions, mergeSessions } from "./history";
+import { PresetTime } from "./presets";
+import { CustomTheme, createCustomThemeId } from "./themes";
+import { Sequence, createSequenceId } from "./sequences";
+import { DEFAULT_API_SETTINGS } from "./api";
+import { DEFAULT_PLACEMENT_SETTINGS } from "./placement";
+
+export const BACKUP_FILE_FORMAT = "timebar-backup";
+export const BACKUP_FILE_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  settings: AppSettings;
+  history?: SessionRecord[]; // only when exported with history
+}
+
+// What happens to the current setup on import
+export enum ImportMode {
+  MERGE = "merge", // add the bundle's presets, sequences, themes and sessions to the current ones
+  REPLACE = "replace" // the bundle's settings (and history, if any) replace the current ones
+}
+
+// A checked bundle, ready to import
+export interface Backup {
+  settings: AppSettings;
+  history: SessionRecord[] | null;
+}
+
+// Summary of an import, for the confirmation message
+export interface ImportResult {
+  presets: number;
+  sequences: number;
+  themes: number;
+  sessions: number | null; // null when the bundle had no history
+}
+
+// Serialize the settings, and the history if given, as a backup file
+export function createBackupFile(settings: AppSettings, history: SessionRecord[] | null): string {
+  const file: BackupFile = {
+    format: BACKUP_FILE_FORMAT,
+    version: BACKUP_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: {
+      ...settings,
+      sounds: { ...settings.sounds, customSounds: [] },
+      api: DEFAULT_API_SETTINGS,
+      hooks: [],
+      placement: DEFAULT_PLACEMENT_SETTINGS,
+    },
+    ...(history && { history }),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read a backup file, checking it against the settings schema. Returns the
+// backup, or a user-facing reason it was rejected.
+export function parseBackupFile(text: string): Backup | string {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return "The file is not valid JSON";
+  }
+
+  if (file?.format !== BACKUP_FILE_FORMAT) return "The file is not a Timebar backup";
+  if (typeof file.version !== "number" || file.version > BACKUP_FILE_VERSION) {
+    return "The backup was made by a newer version of Timebar";
+  }
+  if (!file.settings || typeof file.settings !== "object") return "The backup has no settings";
+  if (typeof file.settings.version === "number" && file.settings.version > SETTINGS_VERSION) {
+    return "The backup's settings come from a newer version of Timebar";
+  }
+  if (file.history !== undefined && !Array.isArray(file.history)) return "The backup's history is damaged";
+
+  return {
+    settings: parseSettings(file.settings),
+    history: file.history === undefined ? null : restoreSessions(file.history),
+  };
+}
+
+// Combine the current settings with a bundle's. Presets and custom themes
+// are added; everything else keeps its current value.
+export function mergeSettings(current: AppSettings, incoming: AppSettings): AppSettings {
+  const presetKey = (preset: PresetTime) => `${preset.seconds}:${preset.label}:${preset.mode || ""}`;
+  const presetKeys = new Set(current.presets.map(presetKey));
+  const presets = [...current.presets, ...incoming.presets.filter((preset) => !presetKeys.has(presetKey(preset)))];
+
+  // Themes already present are skipped; a different theme under a taken id gets a new one
+  const customThemes = [...current.customThemes];
+  incoming.customThemes.forEach((theme) => {
+    const existing = customThemes.find((other) => other.id === theme.id);
+    if (existing && sameTheme(existing, theme)) return;
+    if (customThemes.some((other) => sameTheme(other, theme))) return;
+
+    const id = existing ? createCustomThemeId(theme.name, customThemes.map((other) => other.id)) : theme.id;
+    customThemes.push({ ...theme, id });
+  });
+
+  // Sequences likewise: identical ones are skipped, a taken id is replaced
+  const sequences = [...current.sequences];
+  incoming.sequences.forEach((sequence) => {
+    const existing = sequences.find((other) => other.id === sequence.id);
+    if (existing && sameSequence(existing, sequence)) return;
+    if (sequences.some((other) => sameSequence(other, sequence))) return;
+
+    sequences.push({ ...sequence, id: existing ? createSequenceId() : sequence.id });
+  });
+
+  return { ...current, presets, sequences, customThemes };
+}
+
+function sameSequence(a: Sequence, b: Sequence): boolean {
+  const { id: _a, ...restA } = a;
+  const { id: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+function sameTheme(a: CustomTheme, b: CustomTheme): boolean {
+  const { id: _a, ...restA } = a;
+  const { id: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+// Ask for a file name and write the backup. Returns false if cancelled.
+export async function exportBackup(settingsStore: Store, historyStore: Store, includeHistory: boolean): Promise<boolean> {
+  const settings = await readSettings(settingsStore);
+  const history = includeHistory ? await loadSessions(historyStore) : null;
+  const date = new Date().toISOString().slice(0, 10);
+
+  return invoke<boolean>("save_json_file", {
+    title: includeHistory ? "Export Settings and History" : "Export Settings",
+    defaultName: `timebar-backup-${date}.json`,
+    contents: createBackupFile(settings, history),
+  });
+}
+
+// Ask for a backup file and import it. Returns null if cancelled; throws a
+// user-facing message if the file is rejected. Every window is told to
+// reload through the "settings-imported" event.
+export async function importBackup(settingsStore: Store, historyStore: Store, mode: ImportMode): Promise<ImportResult | null> {
+  const text = await invoke<string | null>("open_json_file", { title: "Import Settings" });
+  if (text === null) return null;
+
+  const backup = parseBackupFile(text);
+  if (typeof backup === "string") throw new Error(backup);
+
+  const current = await readSettings(settingsStore);
+  const imported = mode === ImportMode.MERGE ? mergeSettings(current, backup.settings) : backup.settings;
+  const { version: _version, ...patch } = imported;
+  const settings = await updateSettings(settingsStore, {
+    ...patch,
+    sounds: { ...imported.sounds, customSounds: current.sounds.customSounds },
+    api: current.api,
+    hooks: current.hooks,
+    placement: current.placement,
+  });
+
+  if (backup.history) {
+    const sessions = mode === ImportMode.MERGE
+      ? mergeSessions(await loadSessions(historyStore), backup.history)
+      : backup.history;
+    await saveSessions(historyStore, sessions);
+    await emit("history-updated");
+  }
+
+  console.log("Imported backup:", mode, settings);
+  await emit("settings-imported", settings);
+
+  return {
+    presets: backup.settings.presets.length,
+    sequences: backup.settings.sequences.length,
+    themes: backup.settings.customThemes.length,
+    sessions: backup.history ? backup.history.length : null,
+  };
+}
+
+// One-line summary of an import for the user
+export function describeImport(result: ImportResult): string {
+  const parts = [`${result.presets} presets`, `${result.sequences} sequences`, `${result.themes} custom themes`];
+  if (result.sessions !== null) parts.push(`${result.sessions} sessions`);
+  return `Imported ${parts.join(", ")}.`;
+}
@@ -0,0 +1,118 @@
+// Command-line control of the running app, e.g. `timebar start 25m` or
+// `timebar status --json`. The native side forwards the arguments of a
+// second launch to the timer window, which parses them here and replies with
+// the text to print. The local API (see api.ts) speaks the same commands.
+
+import { TimerMode } from "./timer";
+import { ParsedDuration, parseDuration, formatTime } from "./duration";
+import { TimerStatus } from "./timers";
+
+export enum CliAction {
+  START = "start",
+  PAUSE = "pause",
+  TOGGLE = "toggle",
+  RESET = "reset",
+  SET = "set",
+  MODE = "mode",
+  PRESET = "preset",
+  STATUS = "status",
+  HELP = "help"
+}
+
+export type CliCommand =
+  | { action: CliAction.START; duration: ParsedDuration | null } // set the time first if given
+  | { action: CliAction.PAUSE | CliAction.TOGGLE | CliAction.RESET | CliAction.HELP }
+  | { action: CliAction.SET; duration: ParsedDuration }
+  | { action: CliAction.MODE; mode: TimerMode | null } // null switches to the other mode
+  | { action: CliAction.PRESET; preset: string } // 1-based number or label
+  | { action: CliAction.STATUS };
+
+// A command and how to reply: the status line, or with --json the status as JSON
+export interface CliRequest {
+  command: CliCommand;
+  json: boolean;
+}
+
+// Sent back to the command line: printed to stdout, or to stderr on failure
+export interface CliReply {
+  ok: boolean;
+  output: string;
+}
+
+export const CLI_USAGE = `Usage: timebar <command>
+
+  start [duration]      start or resume; with a duration, start a new countdown
+  pause                 pause the timer
+  toggle                start or pause
+  reset                 reset the timer
+  set <duration>        set the countdown time, e.g. 25m, 1h30m, +5m, until 14:30
+  mode [countdown|stopwatch]
+                        switch mode; without an argument, switch to the other one
+  preset <number|name>  apply a preset
+  status                show the time on the bar
+
+Add --json to any command to print the timer's status as JSON.`;
+
+const MODE_NAMES: Record<string, TimerMode> = {
+  countdown: TimerMode.COUNTDOWN,
+  stopwatch: TimerMode.STOPWATCH,
+};
+
+// Parse command-line arguments. Returns the request, or a user-facing reason
+// it was rejected.
+export function parseCommandLine(args: string[]): CliRequest | string {
+  const json = args.includes("--json");
+  const command = parseCommand(args.filter((arg) => arg !== "--json"));
+  return typeof command === "string" ? command : { command, json };
+}
+
+function parseCommand(args: string[]): CliCommand | string {
+  const [name = "", ...rest] = args;
+  const action = name.toLowerCase();
+  const argument = rest.join(" ").trim();
+
+  switch (action) {
+    case CliAction.START: {
+      if (!argument) return { action, duration: null };
+      const result = parseDuration(argument);
+      return result.ok ? { action, duration: result.duration } : result.error;
+    }
+    case CliAction.SET: {
+      if (!argument) return "Give a duration, e.g. timebar set 25m";
+      const result = parseDuration(argument);
+      return result.ok ? { action, duration: result.duration } : result.error;
+    }
+    case CliAction.PAUSE:
+    case CliAction.TOGGLE:
+    case CliAction.RESET:
+    case CliAction.STATUS:
+      return rest.length === 0 ? { action } : `"${action}" takes no arguments`;
+    case CliAction.MODE: {
+      if (!argument) return { action, mode: null };
+      const mode = MODE_NAMES[argument.toLowerCase()];
+      return mode ? { action, mode } : `Unknown mode "${argument}". Use countdown or stopwatch`;
+    }
+    case CliAction.PRESET:
+      return argument ? { action, preset: argument } : "Give a preset number or name, e.g. timebar preset 2";
+    case CliAction.HELP:
+    case "--help":
+    case "-h":
+      return { action: CliAction.HELP };
+    default:
+      return `Unknown command "${name}"\n\n${CLI_USAGE}`;
+  }
+}
+
+// One-line status such as "Timer 1: 12:34 left, running"
+export function formatStatus(status: TimerStatus): string {
+  const time = formatTime(status.displaySeconds);
+  const running = status.complete ? "finished" : status.running ? "running" : "paused";
+  const stage = status.phase || status.segment;
+  const state = stage ? `${running} (${stage})` : running;
+  if (status.overtimeSeconds !== null) {
+    return `${status.name}: ${formatTime(status.overtimeSeconds)} over, ${status.running ? "running" : "paused"} (overtime)`;
+  }
+  return status.mode === TimerMode.STOPWATCH
+    ? `${status.name}: ${time} elapsed, ${state} (stopwatch)`
+    : `${status.name}: ${time} left, ${state}`;
+}
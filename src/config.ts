@@ -0,0 +1,195 @@
+// Settings schema shared by every window: one typed layout, its defaults,
+// validation, migrations from older layouts, and partial updates that
+// re-read the store so one writer never wipes another writer's fields.
+//
+// The settings live under one key of the settings store file, next to the
+// timer collection (see main.ts).
+
+import { Store } from "@tauri-apps/plugin-store";
+import { PresetTime, DEFAULT_PRESETS, restorePresets } from "./presets";
+import { Sequence, DEFAULT_SEQUENCES, restoreSequences } from "./sequences";
+import { PomodoroSettings, DEFAULT_POMODORO_SETTINGS, resolvePomodoroSettings } from "./pomodoro";
+import { ShortcutBindings, DEFAULT_SHORTCUTS, resolveShortcuts } from "./shortcuts";
+import { SoundSettings, DEFAULT_SOUND_SETTINGS, resolveSoundSettings } from "./sounds";
+import {
+  CustomTheme,
+  OutlineStyle,
+  themes,
+  isHexColor,
+  parseGradientStops,
+  getAllThemes,
+  createCustomThemeId,
+  restoreCustomThemes,
+  validateCustomTheme,
+} from "./themes";
+import { DynamicThemeSettings, DEFAULT_DYNAMIC_THEME, resolveDynamicTheme } from "./dynamic";
+import { ApiSettings, DEFAULT_API_SETTINGS, resolveApiSettings } from "./api";
+import { Hook, restoreHooks } from "./hooks";
+import { OvertimeSettings, DEFAULT_OVERTIME_SETTINGS, resolveOvertimeSettings } from "./overtime";
+import { PlacementSettings, DEFAULT_PLACEMENT_SETTINGS, resolvePlacementSettings } from "./placement";
+import { BarSettings, DEFAULT_BAR_SETTINGS, resolveBarSettings } from "./layout";
+import { TraySettings, DEFAULT_TRAY_SETTINGS, resolveTraySettings } from "./tray";
+import { AdjustSettings, DEFAULT_ADJUST_SETTINGS, resolveAdjustSettings } from "./adjust";
+
+export const SETTINGS_STORE_FILE = "settings.json";
+const SETTINGS_KEY = "settings";
+
+export interface AppSettings {
+  version: number; // layout version, see MIGRATIONS
+  theme: string; // theme picked by the user (built-in key or custom theme id)
+  presets: PresetTime[];
+  sequences: Sequence[]; // interval sequences, listed in the tray after the presets
+  pomodoro: PomodoroSettings;
+  shortcuts: ShortcutBindings;
+  notifications: boolean; // desktop notification when a countdown ends
+  overtime: OvertimeSettings; // counting on past zero
+  sounds: SoundSettings;
+  customThemes: CustomTheme[]; // themes made in the theme editor
+  dynamicTheme: DynamicThemeSettings;
+  api: ApiSettings; // local HTTP/WebSocket control API
+  hooks: Hook[]; // commands and webhooks run on timer events
+  placement: PlacementSettings; // monitor and edge the bar opens on
+  bar: BarSettings; // window size, text size and layout
+  tray: TraySettings; // tray icon style
+  adjust: AdjustSettings; // mouse wheel adjustments
+}
+
+// Fields a writer may change; the version is managed here
+export type SettingsPatch = Partial<Omit<AppSettings, "version">>;
+
+const DEFAULT_THEME = "blue";
+
+// Name of the custom theme made from colours saved without a theme
+const LEGACY_THEME_NAME = "My Colours";
+
+// Upgrades from one layout to the next: MIGRATIONS[n] turns version n into
+// version n + 1. Settings saved before versioning count as version 0.
+const MIGRATIONS: ((data: any) => any)[] = [
+  migrateUnversionedSettings,
+];
+
+export const SETTINGS_VERSION = MIGRATIONS.length;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  version: SETTINGS_VERSION,
+  theme: DEFAULT_THEME,
+  presets: DEFAULT_PRESETS,
+  sequences: DEFAULT_SEQUENCES,
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
+  shortcuts: DEFAULT_SHORTCUTS,
+  notifications: true,
+  overtime: DEFAULT_OVERTIME_SETTINGS,
+  sounds: DEFAULT_SOUND_SETTINGS,
+  customThemes: [],
+  dynamicTheme: DEFAULT_DYNAMIC_THEME,
+  api: DEFAULT_API_SETTINGS,
+  hooks: [],
+  placement: DEFAULT_PLACEMENT_SETTINGS,
+  bar: DEFAULT_BAR_SETTINGS,
+  tray: DEFAULT_TRAY_SETTINGS,
+  adjust: DEFAULT_ADJUST_SETTINGS,
+};
+
+// Writes from this window run one after another, each on the latest data
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+// Read the saved settings, upgraded to the current layout and validated
+export async function readSettings(store: Store): Promise<AppSettings> {
+  return parseSettings(await store.get(SETTINGS_KEY));
+}
+
+// Change some fields and save, keeping every other field as currently stored
+export function updateSettings(store: Store, patch: SettingsPatch): Promise<AppSettings> {
+  const write = pendingWrite.then(async () => {
+    const settings = validateSettings({ ...(await readSettings(store)), ...patch });
+    await store.set(SETTINGS_KEY, settings);
+    await store.save();
+    console.log("Settings saved:", Object.keys(patch));
+    return settings;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+// Upgrade and validate settings from the store or a settings file
+export function parseSettings(data: unknown): AppSettings {
+  if (!data || typeof data !== "object") return { ...DEFAULT_SETTINGS };
+
+  let migrated: any = data;
+  const version = typeof migrated.version === "number" ? migrated.version : 0;
+  for (let n = version; n < MIGRATIONS.length; n++) {
+    console.log(`Migrating settings from version ${n} to ${n + 1}`);
+    migrated = MIGRATIONS[n](migrated);
+  }
+
+  return validateSettings(migrated);
+}
+
+// Fill in missing or malformed fields from the defaults
+export function validateSettings(data: any): AppSettings {
+  const customThemes = restoreCustomThemes(data?.customThemes);
+  const theme = typeof data?.theme === "string" && getAllThemes(customThemes)[data.theme]
+    ? data.theme
+    : DEFAULT_THEME;
+
+  return {
+    version: SETTINGS_VERSION,
+    theme,
+    presets: restorePresets(data?.presets),
+    sequences: restoreSequences(data?.sequences),
+    pomodoro: resolvePomodoroSettings(data?.pomodoro),
+    shortcuts: resolveShortcuts({ shortcuts: data?.shortcuts }),
+    notifications: typeof data?.notifications === "boolean" ? data.notifications : true,
+    overtime: resolveOvertimeSettings(data?.overtime),
+    sounds: resolveSoundSettings(data?.sounds),
+    customThemes,
+    dynamicTheme: resolveDynamicTheme(data?.dynamicTheme),
+    api: resolveApiSettings(data?.api),
+    hooks: restoreHooks(data?.hooks),
+    placement: resolvePlacementSettings(data?.placement),
+    bar: resolveBarSettings(data?.bar),
+    tray: resolveTraySettings(data?.tray),
+    adjust: resolveAdjustSettings(data?.adjust),
+  };
+}
+
+// Version 0 → 1. The first releases saved the bar, background and text
+// colours instead of a theme name, and two separate shortcut keys. Colours
+// that match a built-in theme select it; others become a custom theme.
+function migrateUnversionedSettings(data: any): any {
+  const {
+    barColor,
+    backgroundColor,
+    textColor,
+    startPauseKey,
+    resetKey,
+    position: _position, // single window position, replaced by per-monitor positions
+    ...rest
+  } = data;
+  const migrated = {
+    ...rest,
+    version: 1,
+    shortcuts: resolveShortcuts({ startPauseKey, resetKey, shortcuts: data.shortcuts }),
+  };
+
+  if (typeof migrated.theme === "string" && migrated.theme) return migrated;
+  if (typeof barColor !== "string" || !barColor) return migrated;
+
+  const builtIn = Object.keys(themes).find((key) => themes[key].barColor === barColor);
+  if (builtIn) return { ...migrated, theme: builtIn };
+
+  const customThemes = restoreCustomThemes(migrated.customThemes);
+  const theme = validateCustomTheme({
+    name: LEGACY_THEME_NAME,
+    stops: parseGradientStops(barColor),
+    backgroundColor: isHexColor(backgroundColor) ? backgroundColor : "transparent",
+    textColor: isHexColor(textColor) ? textColor : "#ffffff",
+    outline: OutlineStyle.SHADOW,
+  }, createCustomThemeId(LEGACY_THEME_NAME, customThemes.map((existing) => existing.id)));
+  if (typeof theme === "string") {
+    console.log("Legacy colours could not be turned into a theme:", theme);
+    return migrated;
+  }
+
+  return { ...migrated, theme: theme.id, customThemes: [...customThemes, theme] };
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { DurationKind, MAX_DURATION_SECONDS, parseDuration, formatTime, formatPreciseTime } from "./duration";
+
+// Local 14:00:00 on a day without a daylight saving change
+const NOW = new Date(2024, 0, 15, 14, 0, 0).getTime();
+
+function parsed(input: string) {
+  const result = parseDuration(input, NOW);
+  if (!result.ok) throw new Error(`"${input}" was rejected: ${result.error}`);
+  return result.duration;
+}
+
+function error(input: string): string {
+  const result = parseDuration(input, NOW);
+  if (result.ok) throw new Error(`"${input}" was accepted as ${result.duration.seconds}s`);
+  return result.error;
+}
+
+describe("parseDuration units", () => {
+  it.each([
+    ["90", 90 * 60],
+    ["1.5", 90],
+    [".5", 30],
+    ["25m", 25 * 60],
+    ["90s", 90],
+    ["1.5h", 90 * 60],
+    ["2 hours", 2 * 3600],
+    ["10 mins", 600],
+    ["45 seconds", 45],
+    ["1h30m", 90 * 60],
+    ["1h 30m 15s", 5415],
+    ["5:30", 330],
+    ["1:30:00", 5400],
+    ["  25M  ", 25 * 60],
+  ])("reads %j as %i seconds", (input, seconds) => {
+    expect(parsed(input)).toEqual({ kind: DurationKind.ABSOLUTE, seconds });
+  });
+});
+
+describe("parseDuration sums", () => {
+  it("adds and subtracts terms", () => {
+    expect(parsed("25m - 30s")).toEqual({ kind: DurationKind.ABSOLUTE, seconds: 1470 });
+    expect(parsed("1h + 5:00")).toEqual({ kind: DurationKind.ABSOLUTE, seconds: 3900 });
+  });
+
+  it("rejects a sum that is not more than zero", () => {
+    expect(error("1m - 2m")).toBe("Duration must be more than zero");
+  });
+});
+
+describe("parseDuration relative values", () => {
+  it("treats a leading sign as relative to the current time", () => {
+    expect(parsed("+5m")).toEqual({ kind: DurationKind.RELATIVE, seconds: 300 });
+    expect(parsed("-1m")).toEqual({ kind: DurationKind.RELATIVE, seconds: -60 });
+    expect(parsed("+1m - 30s")).toEqual({ kind: DurationKind.RELATIVE, seconds: 30 });
+  });
+
+  it("rejects a change of zero", () => {
+    expect(error("+1m - 60s")).toBe("Adding zero changes nothing");
+  });
+});
+
+describe("parseDuration until", () => {
+  it("counts down to a later time today", () => {
+    expect(parsed("until 14:30")).toEqual({ kind: DurationKind.UNTIL, seconds: 1800 });
+    expect(parsed("@15:00")).toEqual({ kind: DurationKind.UNTIL, seconds: 3600 });
+    expect(parsed("@ 14:00:30")).toEqual({ kind: DurationKind.UNTIL, seconds: 30 });
+  });
+
+  it("reads am and pm", () => {
+    expect(parsed("@2:30pm").seconds).toBe(1800);
+    expect(parsed("until 12am").seconds).toBe(10 * 3600);
+    expect(parsed("until 12pm").seconds).toBe(22 * 3600);
+  });
+
+  it("rolls over past midnight to the next day", () => {
+    expect(parsed("until 13:00").seconds).toBe(23 * 3600);
+    expect(parsed("until 14:00").seconds).toBe(24 * 3600);
+    expect(parsed("@1:15").seconds).toBe(11 * 3600 + 15 * 60);
+  });
+
+  it("explains invalid clock times", () => {
+    expect(error("until 25:00")).toBe('"25:00" is not a valid time of day');
+    expect(error("until 13pm")).toBe("Use 1 to 12 with am/pm");
+    expect(error("until noon")).toBe('Could not read the time "noon". Try 14:30 or 2:30pm');
+  });
+});
+
+describe("parseDuration errors", () => {
+  it("asks for a duration when empty", () => {
+    expect(error("   ")).toBe("Enter a duration. Try 25m, 1h30m, 1:30:00, +5m or until 14:30");
+  });
+
+  it("names an unknown unit", () => {
+    expect(error("5 days")).toBe('Unknown unit "days". Use h, m or s');
+  });
+
+  it("rejects minutes or seconds of 60 and more", () => {
+    expect(error("5:60")).toBe("Minutes and seconds must be less than 60");
+    expect(error("1:60:00")).toBe("Minutes and seconds must be less than 60");
+  });
+
+  it("points at a missing term", () => {
+    expect(error("5m +")).toBe("Something is missing around + or -. Try 25m, 1h30m, 1:30:00, +5m or until 14:30");
+  });
+
+  it("quotes text it cannot read", () => {
+    expect(error("abc")).toBe('Could not read "abc". Try 25m, 1h30m, 1:30:00, +5m or until 14:30');
+    expect(error("5m x")).toBe('Could not read "5m x". Try 25m, 1h30m, 1:30:00, +5m or until 14:30');
+  });
+
+  it("limits durations to 99:59:59", () => {
+    expect(parsed("99:59:59").seconds).toBe(MAX_DURATION_SECONDS);
+    expect(error("100h")).toBe("Durations are limited to 99:59:59");
+  });
+});
+
+describe("formatTime", () => {
+  it("shows MM:SS under an hour and HH:MM:SS from an hour", () => {
+    expect(formatTime(0)).toBe("00:00");
+    expect(formatTime(330)).toBe("05:30");
+    expect(formatTime(5400)).toBe("01:30:00");
+  });
+
+  it("shows tenths or hundredths of a second", () => {
+    expect(formatPreciseTime(62_456)).toBe("01:02.45");
+    expect(formatPreciseTime(62_456, 1)).toBe("01:02.4");
+  });
+});
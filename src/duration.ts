@@ -0,0 +1,170 @@
+// Duration parser shared by the timer bar's custom time input and the
+// settings window. Understands:
+//
+//   90, 1.5          bare numbers are minutes
+//   25m, 90s, 1.5h   numbers with a unit (h, m, s or their long forms)
+//   1h30m, 1h 30m    several units in a row
+//   5:30, 1:30:00    MM:SS and HH:MM:SS
+//   25m - 30s        sums and differences of the above
+//   +5m, -1m         relative to the current time
+//   until 14:30      counts down to a clock time (also "@15:00", "@2:30pm")
+
+export enum DurationKind {
+  ABSOLUTE = "absolute", // a length of time
+  RELATIVE = "relative", // added to or taken off the current time
+  UNTIL = "until" // length of time left until a clock time
+}
+
+export interface ParsedDuration {
+  kind: DurationKind;
+  seconds: number; // negative only for relative durations
+}
+
+// Parse outcome: the duration, or a user-facing reason it was rejected
+export type DurationResult =
+  | { ok: true; duration: ParsedDuration }
+  | { ok: false; error: string };
+
+// Longest accepted duration, 99:59:59
+export const MAX_DURATION_SECONDS = 99 * 3600 + 59 * 60 + 59;
+
+const FORMAT_HINT = "Try 25m, 1h30m, 1:30:00, +5m or until 14:30";
+
+const UNIT_SECONDS: Record<string, number> = {
+  h: 3600, hr: 3600, hrs: 3600, hour: 3600, hours: 3600,
+  m: 60, min: 60, mins: 60, minute: 60, minutes: 60,
+  s: 1, sec: 1, secs: 1, second: 1, seconds: 1,
+};
+
+const UNTIL_PATTERN = /^(?:until\s+|@\s*)(.+)$/;
+const CLOCK_PATTERN = /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/;
+const UNIT_PATTERN = /(\d+(?:\.\d+)?|\.\d+)\s*([a-z]+)/g;
+
+// Parse a duration typed by the user
+export function parseDuration(input: string, now: number = Date.now()): DurationResult {
+  const text = input.trim().toLowerCase();
+  if (!text) return failure("Enter a duration. " + FORMAT_HINT);
+
+  const until = text.match(UNTIL_PATTERN);
+  if (until) return parseUntil(until[1].trim(), now);
+
+  // A leading sign makes the whole expression relative
+  const relative = text.startsWith("+") || text.startsWith("-");
+  const expression = relative ? text : `+${text}`;
+
+  // Split into signed terms: "+25m - 30s" → ["+25m", "-30s"]
+  const terms = expression.match(/[+-][^+-]*/g) || [];
+  let total = 0;
+  for (const term of terms) {
+    const sign = term[0] === "-" ? -1 : 1;
+    const seconds = parseTerm(term.slice(1).trim());
+    if (typeof seconds === "string") return failure(seconds);
+    total += sign * seconds;
+  }
+  total = Math.round(total);
+
+  if (Math.abs(total) > MAX_DURATION_SECONDS) {
+    return failure("Durations are limited to 99:59:59");
+  }
+  if (relative) {
+    return total === 0
+      ? failure("Adding zero changes nothing")
+      : success(DurationKind.RELATIVE, total);
+  }
+  if (total <= 0) return failure("Duration must be more than zero");
+  return success(DurationKind.ABSOLUTE, total);
+}
+
+// Format seconds as HH:MM:SS if >= 1 hour, otherwise MM:SS
+export function formatTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Format milliseconds like formatTime with tenths or hundredths, e.g. "01:02.45"
+export function formatPreciseTime(totalMs: number, digits: 1 | 2 = 2): string {
+  const scale = digits === 1 ? 100 : 10;
+  const units = Math.floor(totalMs / scale);
+  const per = 1000 / scale;
+  const fraction = (units % per).toString().padStart(digits, "0");
+  return `${formatTime(Math.floor(units / per))}.${fraction}`;
+}
+
+// Seconds for one term without its sign, or an error message
+function parseTerm(term: string): number | string {
+  if (!term) return "Something is missing around + or -. " + FORMAT_HINT;
+
+  // Bare number: minutes
+  if (/^(\d+(\.\d+)?|\.\d+)$/.test(term)) {
+    return parseFloat(term) * 60;
+  }
+
+  // MM:SS or HH:MM:SS
+  const colon = term.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (colon) {
+    const parts = colon.slice(1).filter((part) => part !== undefined).map((part) => parseInt(part, 10));
+    if (parts.slice(1).some((part) => part >= 60)) {
+      return "Minutes and seconds must be less than 60";
+    }
+    return parts.length === 3
+      ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+      : parts[0] * 60 + parts[1];
+  }
+
+  // Units, e.g. "1h30m" or "1 hour 30 min"; everything must be consumed
+  let seconds = 0;
+  let consumed = "";
+  for (const match of term.matchAll(UNIT_PATTERN)) {
+    const unit = UNIT_SECONDS[match[2]];
+    if (unit === undefined) return `Unknown unit "${match[2]}". Use h, m or s`;
+    seconds += parseFloat(match[1]) * unit;
+    consumed += match[0];
+  }
+  if (consumed && consumed.replace(/\s/g, "") === term.replace(/\s/g, "")) {
+    return seconds;
+  }
+
+  return `Could not read "${term}". ${FORMAT_HINT}`;
+}
+
+// Seconds from now until the next occurrence of a clock time
+function parseUntil(clock: string, now: number): DurationResult {
+  const match = clock.match(CLOCK_PATTERN);
+  if (!match) return failure(`Could not read the time "${clock}". Try 14:30 or 2:30pm`);
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const seconds = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = match[4];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return failure("Use 1 to 12 with am/pm");
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return failure(`"${clock}" is not a valid time of day`);
+  }
+
+  // Today if still ahead, otherwise tomorrow
+  const target = new Date(now);
+  target.setHours(hours, minutes, seconds, 0);
+  if (target.getTime() <= now) {
+    target.setDate(target.getDate() + 1);
+  }
+
+  return success(DurationKind.UNTIL, Math.ceil((target.getTime() - now) / 1000));
+}
+
+function success(kind: DurationKind, seconds: number): DurationResult {
+  return { ok: true, duration: { kind, seconds } };
+}
+
+function failure(error: string): DurationResult {
+  return { ok: false, error };
+}
@@ -0,0 +1,152 @@
+// Dynamic theme: the bar colour follows the time remaining on a countdown.
+// The user defines an ordered list of colour stops, each pinned to a
+// threshold of time remaining, and the colour blends smoothly between them.
+// An optional effect (pulse or blink) marks the last seconds.
+
+export enum ThresholdUnit {
+  PERCENT = "percent", // percentage of the countdown remaining
+  SECONDS = "seconds" // seconds remaining
+}
+
+export enum EndEffect {
+  NONE = "none",
+  PULSE = "pulse",
+  BLINK = "blink"
+}
+
+export interface DynamicStop {
+  threshold: number; // time remaining at which the bar shows this colour
+  unit: ThresholdUnit;
+  color: string; // #rrggbb
+}
+
+export interface DynamicThemeSettings {
+  stops: DynamicStop[]; // ordered from the start of the countdown to the end
+  effect: EndEffect;
+  effectSeconds: number; // effect runs while this many seconds or fewer remain
+}
+
+// Stops resolved against a countdown's length, for repeated lookups per tick
+export interface DynamicRamp {
+  totalSeconds: number;
+  stops: { seconds: number; rgb: [number, number, number] }[]; // most time remaining first
+}
+
+export const END_EFFECTS: Record<EndEffect, string> = {
+  [EndEffect.NONE]: "None",
+  [EndEffect.PULSE]: "Pulse",
+  [EndEffect.BLINK]: "Blink",
+};
+
+export const THRESHOLD_UNITS: Record<ThresholdUnit, string> = {
+  [ThresholdUnit.PERCENT]: "% left",
+  [ThresholdUnit.SECONDS]: "sec left",
+};
+
+// Green through yellow and orange to red, like the original 10-stage theme
+export const DEFAULT_DYNAMIC_THEME: DynamicThemeSettings = {
+  stops: [
+    { threshold: 100, unit: ThresholdUnit.PERCENT, color: "#10b981" },
+    { threshold: 75, unit: ThresholdUnit.PERCENT, color: "#4ade80" },
+    { threshold: 55, unit: ThresholdUnit.PERCENT, color: "#fbbf24" },
+    { threshold: 35, unit: ThresholdUnit.PERCENT, color: "#f97316" },
+    { threshold: 15, unit: ThresholdUnit.PERCENT, color: "#ef4444" },
+    { threshold: 0, unit: ThresholdUnit.PERCENT, color: "#b91c1c" },
+  ],
+  effect: EndEffect.PULSE,
+  effectSeconds: 10,
+};
+
+// Longest end effect window, one hour
+export const MAX_EFFECT_SECONDS = 3600;
+
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+// How much darker the left end of the bar is than the stop colour
+const SHADE = 0.35;
+
+// Merge saved dynamic theme settings over the defaults, dropping bad stops
+export function resolveDynamicTheme(saved?: Partial<DynamicThemeSettings>): DynamicThemeSettings {
+  const stops = Array.isArray(saved?.stops)
+    ? saved.stops.filter((stop) => validateDynamicStop(stop) === null)
+    : [];
+  const effect = Object.values(EndEffect).includes(saved?.effect as EndEffect)
+    ? (saved!.effect as EndEffect)
+    : DEFAULT_DYNAMIC_THEME.effect;
+  const effectSeconds = typeof saved?.effectSeconds === "number" && saved.effectSeconds >= 0
+    ? Math.min(MAX_EFFECT_SECONDS, Math.round(saved.effectSeconds))
+    : DEFAULT_DYNAMIC_THEME.effectSeconds;
+
+  return {
+    stops: stops.length > 0 ? stops : DEFAULT_DYNAMIC_THEME.stops,
+    effect,
+    effectSeconds,
+  };
+}
+
+// Why a stop is unusable, or null if it is fine
+export function validateDynamicStop(stop: Partial<DynamicStop>): string | null {
+  if (!COLOR.test(stop?.color || "")) return "Each stop needs a colour";
+  if (stop.unit !== ThresholdUnit.PERCENT && stop.unit !== ThresholdUnit.SECONDS) return "Unknown threshold unit";
+  if (typeof stop.threshold !== "number" || !isFinite(stop.threshold) || stop.threshold < 0) {
+    return "Thresholds must be zero or more";
+  }
+  if (stop.unit === ThresholdUnit.PERCENT && stop.threshold > 100) return "Percentages go up to 100";
+  return null;
+}
+
+// Convert the stops to seconds remaining for a countdown of the given length.
+// Done once per countdown rather than on every tick.
+export function resolveDynamicRamp(settings: DynamicThemeSettings, totalSeconds: number): DynamicRamp {
+  const stops = settings.stops
+    .map((stop) => ({
+      seconds: stop.unit === ThresholdUnit.PERCENT ? (stop.threshold / 100) * totalSeconds : stop.threshold,
+      rgb: hexToRgb(stop.color),
+    }))
+    // Stable sort keeps the user's order for stops at the same threshold
+    .sort((a, b) => b.seconds - a.seconds);
+
+  return { totalSeconds, stops };
+}
+
+// Bar colour for the time remaining, blended between the surrounding stops
+export function getDynamicColor(ramp: DynamicRamp, remainingSeconds: number): string {
+  const { stops } = ramp;
+  if (remainingSeconds >= stops[0].seconds) return rgbToHex(stops[0].rgb);
+
+  for (let i = 1; i < stops.length; i++) {
+    const upper = stops[i - 1];
+    const lower = stops[i];
+    if (remainingSeconds >= lower.seconds) {
+      const span = upper.seconds - lower.seconds;
+      const t = span > 0 ? (upper.seconds - remainingSeconds) / span : 1;
+      return rgbToHex(mix(upper.rgb, lower.rgb, t));
+    }
+  }
+
+  return rgbToHex(stops[stops.length - 1].rgb);
+}
+
+// Bar background for a colour: a darker shade on the left fading into it
+export function getDynamicGradient(color: string): string {
+  const shade = rgbToHex(mix(hexToRgb(color), [0, 0, 0], SHADE));
+  return `linear-gradient(90deg, ${shade} 0%, ${color} 100%)`;
+}
+
+// Effect to show with the given time remaining
+export function getEndEffect(settings: DynamicThemeSettings, remainingSeconds: number): EndEffect {
+  return remainingSeconds > 0 && remainingSeconds <= settings.effectSeconds ? settings.effect : EndEffect.NONE;
+}
+
+function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function rgbToHex(rgb: [number, number, number]): string {
+  return "#" + rgb.map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("");
+}
+
+function mix(from: [number, number, number], to: [number, number, number], t: number): [number, number, number] {
+  return [0, 1, 2].map((i) => from[i] + (to[i] - from[i]) * t) as [number, number, number];
+}
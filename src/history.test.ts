@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { SessionOutcome, restoreSessions } from "./history";
+import { TimerMode } from "./timer";
+import { PomodoroPhase } from "./pomodoro";
+
+const T0 = 1_700_000_000_000;
+
+const RECORD = {
+  mode: TimerMode.COUNTDOWN,
+  phase: PomodoroPhase.WORK,
+  segment: "Warm up",
+  plannedSeconds: 1500,
+  startedAt: T0,
+  pauses: 2,
+  endedAt: T0 + 1_600_000,
+  actualSeconds: 1600,
+  outcome: SessionOutcome.COMPLETED,
+  overrunSeconds: 100,
+};
+
+describe("restoreSessions", () => {
+  it("keeps a well-formed record as it is", () => {
+    expect(restoreSessions([RECORD])).toEqual([RECORD]);
+  });
+
+  it("drops records without the required fields", () => {
+    expect(restoreSessions("sessions")).toEqual([]);
+    expect(restoreSessions([{ ...RECORD, mode: "lap" }, { ...RECORD, endedAt: "later" }, null])).toEqual([]);
+  });
+
+  it("drops or fixes optional fields of the wrong type", () => {
+    const [record] = restoreSessions([{
+      ...RECORD,
+      phase: "<img src=x onerror=alert(1)>",
+      segment: { name: "Warm up" },
+      plannedSeconds: "1500",
+      pauses: -1,
+      overrunSeconds: "100",
+      extra: "ignored",
+    }]);
+
+    expect(record).toEqual({
+      mode: TimerMode.COUNTDOWN,
+      plannedSeconds: null,
+      startedAt: T0,
+      pauses: 0,
+      endedAt: T0 + 1_600_000,
+      actualSeconds: 1600,
+      outcome: SessionOutcome.COMPLETED,
+    });
+  });
+});
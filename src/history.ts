@@ -0,0 +1,237 @@
+// Session history: one record per timer run, stored in its own store file,
+// plus the daily/weekly/streak summaries shown in the statistics window.
+
+import { Store } from "@tauri-apps/plugin-store";
+import { TimerMode } from "./timer";
+import { PomodoroPhase } from "./pomodoro";
+
+export const HISTORY_STORE_FILE = "history.json";
+const SESSIONS_KEY = "sessions";
+const ACTIVE_SESSION_KEY = "active";
+
+// Oldest records are dropped beyond this many
+const MAX_SESSIONS = 5000;
+
+// How a session ended
+export enum SessionOutcome {
+  COMPLETED = "completed", // countdown reached zero
+  STOPPED = "stopped", // stopwatch reset after counting
+  ABANDONED = "abandoned" // countdown reset or replaced before reaching zero
+}
+
+// A session that has started but not ended yet
+export interface ActiveSession {
+  mode: TimerMode;
+  phase?: PomodoroPhase; // pomodoro phase, if any
+  segment?: string; // interval sequence segment label, if any
+  plannedSeconds: number | null; // countdown length, null for stopwatches
+  startedAt: number; // timestamp of the first start
+  pauses: number;
+  overtimeAlarms?: number; // alarms sounded since a countdown ran into overtime
+}
+
+export interface SessionRecord extends ActiveSession {
+  endedAt: number;
+  actualSeconds: number; // running time, excluding pauses
+  outcome: SessionOutcome;
+  overrunSeconds?: number; // time counted past zero in overtime
+}
+
+export interface PeriodTotal {
+  key: string; // "YYYY-MM-DD" of the day or of the week's Monday
+  label: string;
+  seconds: number;
+  sessions: number;
+  completed: number;
+}
+
+export interface Streaks {
+  current: number; // consecutive days up to today (or yesterday)
+  longest: number;
+}
+
+export async function loadSessions(store: Store): Promise<SessionRecord[]> {
+  return (await store.get<SessionRecord[]>(SESSIONS_KEY)) || [];
+}
+
+// Append a finished session and persist it
+export async function appendSession(store: Store, record: SessionRecord) {
+  const sessions = await loadSessions(store);
+  sessions.push(record);
+  await store.set(SESSIONS_KEY, sessions.slice(-MAX_SESSIONS));
+  await store.save();
+}
+
+// Replace the whole history, e.g. when a backup is imported
+export async function saveSessions(store: Store, sessions: SessionRecord[]) {
+  const sorted = [...sessions].sort((a, b) => a.endedAt - b.endedAt);
+  await store.set(SESSIONS_KEY, sorted.slice(-MAX_SESSIONS));
+  await store.save();
+}
+
+// Keep only well-formed session records, e.g. from a backup file. Optional
+// fields of the wrong type are dropped, so imported text never reaches the
+// statistics window as anything but a phase or a segment label.
+export function restoreSessions(data: unknown): SessionRecord[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((session) =>
+      typeof session?.startedAt === "number" &&
+      typeof session.endedAt === "number" &&
+      typeof session.actualSeconds === "number" &&
+      Object.values(TimerMode).includes(session.mode) &&
+      Object.values(SessionOutcome).includes(session.outcome))
+    .map((session) => restoreSession(session));
+}
+
+function restoreSession(saved: SessionRecord): SessionRecord {
+  const record: SessionRecord = {
+    mode: saved.mode,
+    plannedSeconds: isCount(saved.plannedSeconds) ? saved.plannedSeconds : null,
+    startedAt: saved.startedAt,
+    pauses: isCount(saved.pauses) ? saved.pauses : 0,
+    endedAt: saved.endedAt,
+    actualSeconds: saved.actualSeconds,
+    outcome: saved.outcome,
+  };
+  if (Object.values(PomodoroPhase).includes(saved.phase as PomodoroPhase)) record.phase = saved.phase;
+  if (typeof saved.segment === "string") record.segment = saved.segment;
+  if (isCount(saved.overrunSeconds)) record.overrunSeconds = saved.overrunSeconds;
+  return record;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// Both histories together, without sessions that appear in both
+export function mergeSessions(current: SessionRecord[], incoming: SessionRecord[]): SessionRecord[] {
+  const seen = new Set(current.map((session) => `${session.startedAt}:${session.endedAt}`));
+  return [...current, ...incoming.filter((session) => !seen.has(`${session.startedAt}:${session.endedAt}`))];
+}
+
+export async function clearSessions(store: Store) {
+  await store.set(SESSIONS_KEY, []);
+  await store.save();
+}
+
+// Open session saved here before sessions moved into the timer collection
+export async function loadActiveSession(store: Store): Promise<ActiveSession | null> {
+  return (await store.get<ActiveSession>(ACTIVE_SESSION_KEY)) || null;
+}
+
+// Local calendar day as "YYYY-MM-DD"
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Local midnight at the start of the day containing the timestamp
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Local midnight of the Monday starting the week containing the timestamp
+function startOfWeek(timestamp: number): number {
+  const date = new Date(startOfDay(timestamp));
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+}
+
+// Step whole calendar days (DST-safe, unlike adding 24 hours)
+function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function createTotal(key: string, label: string): PeriodTotal {
+  return { key, label, seconds: 0, sessions: 0, completed: 0 };
+}
+
+function addToTotal(total: PeriodTotal, session: SessionRecord) {
+  total.seconds += session.actualSeconds;
+  total.sessions++;
+  if (session.outcome === SessionOutcome.COMPLETED) total.completed++;
+}
+
+// Totals for the last `days` days, oldest first; sessions count on the day they started
+export function summarizeByDay(sessions: SessionRecord[], days: number, now: number = Date.now()): PeriodTotal[] {
+  const totals = new Map<string, PeriodTotal>();
+  const today = startOfDay(now);
+
+  for (let i = days - 1; i >= 0; i--) {
+    const day = addDays(today, -i);
+    const label = new Date(day).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+    totals.set(toDayKey(day), createTotal(toDayKey(day), label));
+  }
+
+  sessions.forEach((session) => {
+    const total = totals.get(toDayKey(session.startedAt));
+    if (total) addToTotal(total, session);
+  });
+
+  return Array.from(totals.values());
+}
+
+// Totals for the last `weeks` Monday-based weeks, oldest first
+export function summarizeByWeek(sessions: SessionRecord[], weeks: number, now: number = Date.now()): PeriodTotal[] {
+  const totals = new Map<string, PeriodTotal>();
+  const thisWeek = startOfWeek(now);
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const week = addDays(thisWeek, -7 * i);
+    const label = `Week of ${new Date(week).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+    totals.set(toDayKey(week), createTotal(toDayKey(week), label));
+  }
+
+  sessions.forEach((session) => {
+    const total = totals.get(toDayKey(startOfWeek(session.startedAt)));
+    if (total) addToTotal(total, session);
+  });
+
+  return Array.from(totals.values());
+}
+
+// Streaks of consecutive days with at least one non-abandoned session. Today
+// without a session yet does not break the current streak.
+export function computeStreaks(sessions: SessionRecord[], now: number = Date.now()): Streaks {
+  const days = new Set(
+    sessions
+      .filter((session) => session.outcome !== SessionOutcome.ABANDONED)
+      .map((session) => toDayKey(session.startedAt))
+  );
+  if (days.size === 0) return { current: 0, longest: 0 };
+
+  // Longest run over all recorded days
+  const sorted = Array.from(days).sort();
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = new Date(`${sorted[i - 1]}T00:00:00`).getTime();
+    run = toDayKey(addDays(previous, 1)) === sorted[i] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // Current run, counted backwards from today
+  let day = startOfDay(now);
+  if (!days.has(toDayKey(day))) day = addDays(day, -1);
+  let current = 0;
+  while (days.has(toDayKey(day))) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  return { current, longest };
+}
+
+// Skip runs that were started and stopped straight away
+export function isWorthRecording(actualSeconds: number): boolean {
+  return actualSeconds >= 1;
+}
@@ -0,0 +1,182 @@
+// Lifecycle hooks: a shell command or an HTTP POST run when the timer starts,
+// pauses, resumes, resets, completes or moves to the next pomodoro phase or
+// sequence segment. The command
+// line, URL and request body are templates filled with the timer's data,
+// e.g. "Focus until {{endsAt}}". The native side runs the hook; the last
+// result of each hook is kept for the settings window. Values never become
+// part of a command line: its fields read the TIMEBAR_* environment
+// variables instead, so a timer name cannot run as shell syntax.
+
+import { invoke } from "@tauri-apps/api/core";
+import { Store } from "@tauri-apps/plugin-store";
+import { TimerStatus } from "./timers";
+import { formatTime } from "./duration";
+
+export enum HookEvent {
+  START = "start",
+  PAUSE = "pause",
+  RESUME = "resume",
+  RESET = "reset",
+  COMPLETE = "complete",
+  PHASE_CHANGE = "phaseChange"
+}
+
+export enum HookKind {
+  COMMAND = "command", // shell command on this machine
+  WEBHOOK = "webhook" // HTTP POST
+}
+
+export interface Hook {
+  id: string;
+  event: HookEvent;
+  kind: HookKind;
+  target: string; // command line or URL template
+  body: string; // request body template, webhooks only
+  enabled: boolean;
+}
+
+// Outcome of the last run of a hook
+export interface HookResult {
+  at: number; // timestamp
+  ok: boolean;
+  message: string; // exit status or HTTP status, with the start of the output
+}
+
+export const HOOK_EVENTS: Record<HookEvent, string> = {
+  [HookEvent.START]: "Start",
+  [HookEvent.PAUSE]: "Pause",
+  [HookEvent.RESUME]: "Resume",
+  [HookEvent.RESET]: "Reset",
+  [HookEvent.COMPLETE]: "Complete",
+  [HookEvent.PHASE_CHANGE]: "Pomodoro phase or segment change",
+};
+
+export const HOOK_KINDS: Record<HookKind, string> = {
+  [HookKind.COMMAND]: "Run command",
+  [HookKind.WEBHOOK]: "POST to URL",
+};
+
+// Template fields, for the settings window's hint
+export const HOOK_FIELDS = ["event", "name", "mode", "phase", "segment", "time", "seconds", "totalSeconds", "elapsedSeconds", "endsAt", "timestamp"];
+
+export const DEFAULT_HOOK_BODY = '{"event": "{{event}}", "timer": "{{name}}", "time": "{{time}}"}';
+
+// Last results live next to the settings, in the same store file
+const HOOK_RESULTS_KEY = "hookResults";
+
+// Result writes run one after another, each on the latest results
+let pendingResult: Promise<unknown> = Promise.resolve();
+
+// Values for a hook's template, built from the timer's status
+export function getHookFields(event: HookEvent, status: TimerStatus, now: number = Date.now()): Record<string, string> {
+  const remaining = status.totalSeconds !== null && status.running ? status.displaySeconds : null;
+  return {
+    event,
+    name: status.name,
+    mode: status.mode,
+    phase: status.phase || "",
+    segment: status.segment || "",
+    time: formatTime(status.displaySeconds),
+    seconds: status.displaySeconds.toString(),
+    totalSeconds: status.totalSeconds !== null ? status.totalSeconds.toString() : "",
+    elapsedSeconds: status.elapsedSeconds.toString(),
+    endsAt: remaining !== null
+      ? new Date(now + remaining * 1000).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : "",
+    timestamp: new Date(now).toISOString(),
+  };
+}
+
+// Replace {{field}} with its value; unknown fields are left as typed.
+// The escape function makes values safe for the surrounding text.
+export function fillTemplate(template: string, fields: Record<string, string>, escape: (value: string) => string = (value) => value): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in fields ? escape(fields[name]) : match);
+}
+
+// Run a hook with the given template values
+export async function runHook(hook: Hook, fields: Record<string, string>): Promise<HookResult> {
+  try {
+    const message = hook.kind === HookKind.COMMAND
+      ? await invoke<string>("run_hook_command", {
+        command: fillTemplate(hook.target, Object.fromEntries(Object.keys(fields).map((name) => [name, getEnvReference(name)]))),
+        env: Object.fromEntries(Object.entries(fields).map(([name, value]) => [`TIMEBAR_${toEnvName(name)}`, value])),
+      })
+      : await invoke<string>("post_hook_webhook", {
+        url: fillTemplate(hook.target, fields, encodeURIComponent),
+        body: fillTemplate(hook.body, fields, escapeJsonString),
+      });
+    return { at: Date.now(), ok: true, message };
+  } catch (error) {
+    return { at: Date.now(), ok: false, message: String(error) };
+  }
+}
+
+// Check a hook before saving. Returns a user-facing error, or null if valid.
+export function validateHook(hook: Hook): string | null {
+  const target = hook.target.trim();
+  if (!target) {
+    return hook.kind === HookKind.COMMAND ? "Enter a command" : "Enter a URL";
+  }
+  if (hook.kind === HookKind.WEBHOOK && !/^https?:\/\//i.test(target)) {
+    return "The URL must start with http:// or https://";
+  }
+  return null;
+}
+
+// Keep only well-formed hooks from saved settings
+export function restoreHooks(data: unknown): Hook[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((hook) =>
+      typeof hook?.id === "string" &&
+      Object.values(HookEvent).includes(hook.event) &&
+      Object.values(HookKind).includes(hook.kind) &&
+      typeof hook.target === "string")
+    .map((hook) => ({
+      id: hook.id,
+      event: hook.event,
+      kind: hook.kind,
+      target: hook.target,
+      body: typeof hook.body === "string" ? hook.body : DEFAULT_HOOK_BODY,
+      enabled: hook.enabled !== false,
+    }));
+}
+
+export function createHookId(): string {
+  return `h${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+}
+
+export async function loadHookResults(store: Store): Promise<Record<string, HookResult>> {
+  return (await store.get<Record<string, HookResult>>(HOOK_RESULTS_KEY)) || {};
+}
+
+// Remember a hook's last result, dropping results of hooks that no longer exist
+export function saveHookResult(store: Store, hooks: Hook[], id: string, result: HookResult): Promise<void> {
+  const write = pendingResult.then(async () => {
+    const results = await loadHookResults(store);
+    results[id] = result;
+    const kept = Object.fromEntries(Object.entries(results).filter(([hookId]) => hooks.some((hook) => hook.id === hookId)));
+    await store.set(HOOK_RESULTS_KEY, kept);
+    await store.save();
+  });
+  pendingResult = write.catch(() => undefined);
+  return write;
+}
+
+// "elapsedSeconds" → "ELAPSED_SECONDS"
+function toEnvName(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+// How the system shell reads a field's variable: cmd runs with delayed
+// expansion (see hooks.rs), which reads it after the line is parsed
+function getEnvReference(name: string): string {
+  return navigator.userAgent.includes("Windows") ? `!TIMEBAR_${toEnvName(name)}!` : `\${TIMEBAR_${toEnvName(name)}}`;
+}
+
+// A value placed inside a JSON string
+function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
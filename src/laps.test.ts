@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { addLap, createLap } from "./laps";
+
+const T0 = 1_700_000_000_000;
+
+describe("createLap", () => {
+  it("times each lap from the previous split", () => {
+    const first = createLap([], 30_000, T0);
+    expect(first).toEqual({ splitMs: 30_000, lapMs: 30_000, at: T0 });
+    expect(createLap([first], 75_000, T0 + 45_000).lapMs).toBe(45_000);
+  });
+
+  it("counts a lap as zero after time was taken off the stopwatch", () => {
+    const laps = addLap([], createLap([], 90_000, T0));
+    expect(createLap(laps, 40_000, T0 + 10_000)).toEqual({ splitMs: 40_000, lapMs: 0, at: T0 + 10_000 });
+  });
+});
@@ -0,0 +1,91 @@
+// Laps and splits for stopwatch runs. Each lap keeps its split (time on the
+// stopwatch when it was taken) and its lap time (since the previous lap).
+// The bar shows the last lap; the laps window lists them all and exports
+// them as CSV.
+
+import { formatPreciseTime } from "./duration";
+
+export interface Lap {
+  splitMs: number; // elapsed time when the lap was taken
+  lapMs: number; // time since the previous lap, or since the start
+  at: number; // timestamp
+}
+
+// Laps beyond this drop the oldest, so a forgotten shortcut cannot grow the store forever
+export const MAX_LAPS = 999;
+
+// Time taken off the stopwatch can leave the split below the previous one;
+// that lap then counts as zero rather than negative
+export function createLap(laps: Lap[], splitMs: number, at: number = Date.now()): Lap {
+  const previous = laps[laps.length - 1];
+  return { splitMs, lapMs: Math.max(0, splitMs - (previous?.splitMs ?? 0)), at };
+}
+
+// Add a lap, keeping at most MAX_LAPS
+export function addLap(laps: Lap[], lap: Lap): Lap[] {
+  return [...laps, lap].slice(-MAX_LAPS);
+}
+
+// Last lap time minus the one before it; null with fewer than two laps
+export function getLastLapDelta(laps: Lap[]): number | null {
+  if (laps.length < 2) return null;
+  return laps[laps.length - 1].lapMs - laps[laps.length - 2].lapMs;
+}
+
+// "01:02.45"
+export function formatLapTime(ms: number): string {
+  return formatPreciseTime(ms, 2);
+}
+
+// "+0.52" or "-1.03" seconds, slower laps positive
+export function formatLapDelta(deltaMs: number): string {
+  const sign = deltaMs > 0 ? "+" : deltaMs < 0 ? "-" : "±";
+  return `${sign}${(Math.abs(deltaMs) / 1000).toFixed(2)}`;
+}
+
+// Bar label such as "Lap 3 01:02.45 +0.52"
+export function formatLastLap(laps: Lap[]): string {
+  const lap = laps[laps.length - 1];
+  if (!lap) return "";
+
+  const delta = getLastLapDelta(laps);
+  const label = `Lap ${laps.length} ${formatLapTime(lap.lapMs)}`;
+  return delta === null ? label : `${label} ${formatLapDelta(delta)}`;
+}
+
+// Indexes of the fastest and slowest laps, once there are two to compare
+export function findLapExtremes(laps: Lap[]): { fastest: number; slowest: number } | null {
+  if (laps.length < 2) return null;
+
+  let fastest = 0;
+  let slowest = 0;
+  laps.forEach((lap, index) => {
+    if (lap.lapMs < laps[fastest].lapMs) fastest = index;
+    if (lap.lapMs > laps[slowest].lapMs) slowest = index;
+  });
+  return { fastest, slowest };
+}
+
+// One row per lap, with times in seconds for spreadsheets next to the formatted ones
+export function lapsToCsv(laps: Lap[]): string {
+  const rows = laps.map((lap, index) => [
+    (index + 1).toString(),
+    formatLapTime(lap.lapMs),
+    formatLapTime(lap.splitMs),
+    (lap.lapMs / 1000).toFixed(3),
+    (lap.splitMs / 1000).toFixed(3),
+    new Date(lap.at).toISOString(),
+  ].join(","));
+  return ["Lap,Lap Time,Split,Lap Seconds,Split Seconds,Recorded At", ...rows].join("\n") + "\n";
+}
+
+// Keep only well-formed laps from saved timers
+export function restoreLaps(data: unknown): Lap[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((lap) =>
+      typeof lap?.splitMs === "number" && typeof lap.lapMs === "number" && typeof lap.at === "number")
+    .map((lap) => ({ splitMs: lap.splitMs, lapMs: lap.lapMs, at: lap.at }))
+    .slice(-MAX_LAPS);
+}
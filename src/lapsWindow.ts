@@ -0,0 +1,133 @@
+import { invoke } from "@tauri-apps/api/core";
+import { getCurrentWindow } from "@tauri-apps/api/window";
+import { listen, emit } from "@tauri-apps/api/event";
+import { Lap, formatLapTime, formatLapDelta, findLapExtremes, lapsToCsv } from "./laps";
+
+// Laps of the timer focused in the timer window, as last published
+let laps: Lap[] = [];
+let timerName = "";
+
+// Initialize
+async function init() {
+  try {
+    setupEventListeners();
+    render();
+
+    // The timer window sends its laps whenever they change or focus moves
+    await listen("laps-updated", (event: any) => {
+      const payload = event.payload as { name: string; laps: Lap[] };
+      laps = payload.laps;
+      timerName = payload.name;
+      render();
+    });
+    await emit("laps-requested");
+  } catch (error) {
+    console.error("Failed to initialize laps:", error);
+  }
+}
+
+// Render the lap list, newest first, marking the fastest and slowest laps
+function render() {
+  const subtitle = document.getElementById("laps-subtitle");
+  if (subtitle) {
+    subtitle.textContent = timerName ? `Splits recorded on ${timerName}` : "Splits recorded on the stopwatch";
+  }
+
+  const container = document.getElementById("lap-list");
+  if (!container) return;
+
+  container.innerHTML = "";
+
+  if (laps.length === 0) {
+    container.innerHTML = `
+      <div class="empty-state">
+        <p>No laps yet. Take one with the ⚑ button while the stopwatch runs.</p>
+      </div>
+    `;
+    return;
+  }
+
+  const extremes = findLapExtremes(laps);
+  laps
+    .map((lap, index) => ({ lap, index }))
+    .reverse()
+    .forEach(({ lap, index }) => {
+      const row = document.createElement("div");
+      row.className = "lap-row";
+      row.classList.toggle("fastest", extremes?.fastest === index);
+      row.classList.toggle("slowest", extremes?.slowest === index);
+
+      const delta = index > 0 ? formatLapDelta(lap.lapMs - laps[index - 1].lapMs) : "";
+      row.innerHTML = `
+        <span>${index + 1}</span>
+        <span>${formatLapTime(lap.lapMs)}</span>
+        <span>${formatLapTime(lap.splitMs)}</span>
+        <span>${delta}</span>
+      `;
+      container.appendChild(row);
+    });
+}
+
+// Setup event listeners
+function setupEventListeners() {
+  document.getElementById("close-btn")?.addEventListener("click", closeWindow);
+  document.getElementById("clear-laps-btn")?.addEventListener("click", clearLaps);
+  document.getElementById("copy-laps-btn")?.addEventListener("click", copyLaps);
+  document.getElementById("export-laps-btn")?.addEventListener("click", exportLaps);
+
+  document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") closeWindow();
+  });
+}
+
+// Ask the timer window to forget its laps; the cleared list comes back as laps-updated
+async function clearLaps() {
+  if (laps.length === 0 || !confirm("Delete all laps?")) return;
+
+  try {
+    await emit("laps-clear");
+  } catch (error) {
+    console.error("Failed to clear laps:", error);
+  }
+}
+
+async function copyLaps() {
+  if (laps.length === 0) return;
+
+  try {
+    await navigator.clipboard.writeText(lapsToCsv(laps));
+  } catch (error) {
+    console.error("Failed to copy laps:", error);
+    alert("Failed to copy laps. Please try again.");
+  }
+}
+
+// Save the laps as a CSV file chosen in a save dialog
+async function exportLaps() {
+  if (laps.length === 0) return;
+
+  const date = new Date().toISOString().slice(0, 10);
+  try {
+    await invoke<boolean>("save_csv_file", {
+      title: "Export Laps",
+      defaultName: `timebar-laps-${date}.csv`,
+      contents: lapsToCsv(laps),
+    });
+  } catch (error) {
+    console.error("Failed to export laps:", error);
+    alert(`Failed to export laps: ${error}`);
+  }
+}
+
+// Close window
+async function closeWindow() {
+  try {
+    const window = getCurrentWindow();
+    await window.close();
+  } catch (error) {
+    console.error("Failed to close window:", error);
+  }
+}
+
+// Start initialization when DOM is ready
+document.addEventListener("DOMContentLoaded", init);
@@ -0,0 +1,97 @@
+// Bar size and layout: how big the timer window is, how large its text is,
+// and how much it shows. The compact layout shows only the time; the
+// expanded one adds the timer's name, what comes next and when it ends.
+
+export enum BarLayout {
+  COMPACT = "compact", // time only
+  NORMAL = "normal", // buttons, time and labels
+  EXPANDED = "expanded" // plus name, next phase and end time
+}
+
+// What makes the bar show its alternate layout
+export enum LayoutSwitch {
+  NEVER = "never",
+  HOVER = "hover", // while the pointer is over the bar
+  DOUBLE_CLICK = "doubleClick" // toggled by double-clicking the bar
+}
+
+export const BAR_LAYOUT_LABELS: Record<BarLayout, string> = {
+  [BarLayout.COMPACT]: "Compact (time only)",
+  [BarLayout.NORMAL]: "Normal",
+  [BarLayout.EXPANDED]: "Expanded (name, next, end time)",
+};
+
+export const LAYOUT_SWITCH_LABELS: Record<LayoutSwitch, string> = {
+  [LayoutSwitch.NEVER]: "Never",
+  [LayoutSwitch.HOVER]: "On hover",
+  [LayoutSwitch.DOUBLE_CLICK]: "On double-click",
+};
+
+export interface BarSettings {
+  width: number; // logical pixels
+  height: number;
+  fontScale: number; // percent of the default text size
+  layout: BarLayout;
+  alternateLayout: BarLayout; // shown on hover or after a double-click
+  switchOn: LayoutSwitch;
+}
+
+export const DEFAULT_BAR_SETTINGS: BarSettings = {
+  width: 400,
+  height: 48,
+  fontScale: 100,
+  layout: BarLayout.NORMAL,
+  alternateLayout: BarLayout.EXPANDED,
+  switchOn: LayoutSwitch.NEVER,
+};
+
+// Limits for the size fields; the buttons need some room either way
+export const BAR_WIDTH_RANGE = { min: 160, max: 1600 };
+export const BAR_HEIGHT_RANGE = { min: 24, max: 160 };
+export const FONT_SCALE_RANGE = { min: 50, max: 250 };
+
+// Merge saved bar settings over the defaults
+export function resolveBarSettings(saved?: Partial<BarSettings>): BarSettings {
+  return {
+    width: resolveInRange(saved?.width, BAR_WIDTH_RANGE, DEFAULT_BAR_SETTINGS.width),
+    height: resolveInRange(saved?.height, BAR_HEIGHT_RANGE, DEFAULT_BAR_SETTINGS.height),
+    fontScale: resolveInRange(saved?.fontScale, FONT_SCALE_RANGE, DEFAULT_BAR_SETTINGS.fontScale),
+    layout: resolveLayout(saved?.layout, DEFAULT_BAR_SETTINGS.layout),
+    alternateLayout: resolveLayout(saved?.alternateLayout, DEFAULT_BAR_SETTINGS.alternateLayout),
+    switchOn: Object.values(LayoutSwitch).includes(saved?.switchOn as LayoutSwitch)
+      ? saved!.switchOn!
+      : DEFAULT_BAR_SETTINGS.switchOn,
+  };
+}
+
+function resolveInRange(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(range.max, Math.max(range.min, Math.round(value)))
+    : fallback;
+}
+
+function resolveLayout(value: unknown, fallback: BarLayout): BarLayout {
+  return Object.values(BarLayout).includes(value as BarLayout) ? value as BarLayout : fallback;
+}
+
+// Check a size field before saving. Returns a user-facing error, or null if valid.
+export function validateInRange(value: number, range: { min: number; max: number }): string | null {
+  if (!Number.isInteger(value) || value < range.min || value > range.max) {
+    return `Enter a whole number from ${range.min} to ${range.max}`;
+  }
+  return null;
+}
+
+// Layout on screen: the alternate one while hovered or toggled on
+export function getActiveLayout(settings: BarSettings, hovered: boolean, toggled: boolean): BarLayout {
+  const alternate = settings.switchOn === LayoutSwitch.HOVER ? hovered
+    : settings.switchOn === LayoutSwitch.DOUBLE_CLICK ? toggled
+    : false;
+  return alternate ? settings.alternateLayout : settings.layout;
+}
+
+// Clock time a countdown ends at, e.g. "Ends 14:32"
+export function formatEndTime(remainingMs: number, now: number = Date.now()): string {
+  const end = new Date(now + remainingMs);
+  return `Ends ${end.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}`;
+}
@@ -1,119 +1,296 @@
 import { invoke } from "@tauri-apps/api/core";
-import { listen } from "@tauri-apps/api/event";
+import { listen, emit } from "@tauri-apps/api/event";
 import { Store } from "@tauri-apps/plugin-store";
-import { register, isRegistered } from "@tauri-apps/plugin-global-shortcut";
+import { register, unregister, isRegistered } from "@tauri-apps/plugin-global-shortcut";
+import {
+  TimerMode,
+  TimerEngine,
+  isCountdownMode,
+  createEngine,
+  isEngineRunning,
+  startEngine,
+  pauseEngine,
+  resetEngine,
+  adjustEngine,
+  getElapsedMs,
+  getRemainingMs,
+  getDisplaySeconds,
+  getProgress,
+  getOvertimeMs,
+  isEngineComplete,
+  restoreEngine,
+} from "./timer";
+import { CustomTheme, OutlineStyle, getAllThemes, restoreCustomThemes } from "./themes";
+import { PresetTime, DEFAULT_PRESETS } from "./presets";
+import {
+  Sequence,
+  SequenceState,
+  DEFAULT_SEQUENCES,
+  createSequenceState,
+  nextSequenceState,
+  getCurrentSegment,
+  getSequenceSeconds,
+  getSequenceProgress,
+  getSegmentLabel,
+  isLastSegment,
+} from "./sequences";
+import { SETTINGS_STORE_FILE, readSettings, updateSettings } from "./config";
+import { ImportMode, exportBackup, importBackup, describeImport } from "./backup";
+import { CliAction, CliCommand, CliReply, CLI_USAGE, parseCommandLine, formatStatus } from "./cli";
+import { ApiSettings, ApiEventType, DEFAULT_API_SETTINGS, resolveApiSettings, configureApi } from "./api";
+import { Hook, HookEvent, restoreHooks, getHookFields, runHook, saveHookResult } from "./hooks";
+import {
+  DynamicThemeSettings,
+  DynamicRamp,
+  EndEffect,
+  resolveDynamicTheme,
+  resolveDynamicRamp,
+  getDynamicColor,
+  getDynamicGradient,
+  getEndEffect,
+} from "./dynamic";
+import { DurationKind, parseDuration, formatTime, formatPreciseTime } from "./duration";
+import { Lap, createLap, addLap, formatLastLap } from "./laps";
+import {
+  PlacementSettings,
+  SavedPositions,
+  MonitorArea,
+  Point,
+  DEFAULT_PLACEMENT_SETTINGS,
+  EMPTY_SAVED_POSITIONS,
+  resolvePlacementSettings,
+  restoreSavedPositions,
+  toMonitorArea,
+  pickMonitor,
+  findMonitorAt,
+  getWindowPlacement,
+  rememberPosition,
+  forgetPosition,
+} from "./placement";
+import {
+  BarSettings,
+  BarLayout,
+  LayoutSwitch,
+  DEFAULT_BAR_SETTINGS,
+  resolveBarSettings,
+  getActiveLayout,
+  formatEndTime,
+} from "./layout";
+import { TraySettings, DEFAULT_TRAY_SETTINGS, TRAY_UPDATE_INTERVAL_MS, resolveTraySettings, getTrayStatus } from "./tray";
+import { AppAction, parseMenuId } from "./actions";
+import {
+  AdjustSettings,
+  DEFAULT_ADJUST_SETTINGS,
+  WHEEL_SHIFT_MULTIPLIER,
+  WHEEL_NOTCH_PX,
+  SNOOZE_SECONDS,
+  resolveAdjustSettings,
+  formatStep,
+  takeWheelNotches,
+} from "./adjust";
+import { buildTrayMenu, addRecentTime, restoreRecentTimes } from "./trayMenu";
+import {
+  OvertimeSettings,
+  DEFAULT_OVERTIME_SETTINGS,
+  resolveOvertimeSettings,
+  getDueAlarms,
+  isInOvertime,
+  formatOvertime,
+} from "./overtime";
+import {
+  SoundSettings,
+  SoundPlayback,
+  DEFAULT_SOUND_SETTINGS,
+  resolveSoundSettings,
+  resolveSoundId,
+  playSound,
+} from "./sounds";
+import {
+  PomodoroSettings,
+  PomodoroState,
+  DEFAULT_POMODORO_SETTINGS,
+  resolvePomodoroSettings,
+  createPomodoroState,
+  nextPomodoroState,
+  getPhaseSeconds,
+  getPhaseLabel,
+  restorePomodoroState,
+  PHASE_LABELS,
+} from "./pomodoro";
+import {
+  ActiveSession,
+  SessionOutcome,
+  HISTORY_STORE_FILE,
+  appendSession,
+  loadActiveSession,
+  isWorthRecording,
+} from "./history";
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutFailure,
+  DEFAULT_SHORTCUTS,
+  resolveShortcuts,
+  matchesAccelerator,
+  formatAccelerator,
+} from "./shortcuts";
+import {
+  TimerEntry,
+  TimerLayout,
+  createTimerEntry,
+  nextTimerName,
+  restoreTimerCollection,
+  TimerStatus,
+  getTimerStatus,
+} from "./timers";
 
 // Timer state
-enum TimerMode {
-  COUNTDOWN = "countdown",
-  STOPWATCH = "stopwatch"
-}
-
 interface TimerState {
-  mode: TimerMode;
-  isRunning: boolean;
-  currentTime: number; // in seconds
-  totalTime: number; // for countdown mode
+  engine: TimerEngine; // source of truth for mode, duration and elapsed time
+  currentTime: number; // displayed seconds, recomputed from the engine on every tick
   isEditMode: boolean; // for custom time input
 }
 
-interface PresetTime {
-  seconds: number;
-  label: string;
-}
-
-interface Settings {
-  barColor: string;
-  backgroundColor: string;
-  textColor: string;
-  position?: { x: number; y: number };
-  startPauseKey: string;
-  resetKey: string;
-  theme?: string; // Theme name
-  presets?: PresetTime[]; // Custom preset times
-}
-
-// Theme definitions
-interface Theme {
-  name: string;
-  barColor: string;
-  backgroundColor: string;
-  textColor: string;
-}
-
-const themes: Record<string, Theme> = {
-  blue: {
-    name: "Ocean Blue",
-    barColor: "linear-gradient(90deg, #1e3c72 0%, #2a5298 50%, #7e22ce 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  green: {
-    name: "Forest Green",
-    barColor: "linear-gradient(90deg, #134e4a 0%, #16a34a 50%, #84cc16 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  purple: {
-    name: "Sunset Purple",
-    barColor: "linear-gradient(90deg, #667eea 0%, #764ba2 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  orange: {
-    name: "Fire Orange",
-    barColor: "linear-gradient(90deg, #dc2626 0%, #f97316 50%, #fbbf24 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  red: {
-    name: "Cherry Red",
-    barColor: "linear-gradient(90deg, #7f1d1d 0%, #dc2626 50%, #f87171 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  dark: {
-    name: "Dark Matter",
-    barColor: "linear-gradient(90deg, #0f172a 0%, #1e293b 50%, #334155 100%)",
-    backgroundColor: "transparent",
-    textColor: "#e2e8f0",
-  },
-  light: {
-    name: "Sky Light",
-    barColor: "linear-gradient(90deg, #0ea5e9 0%, #38bdf8 50%, #7dd3fc 100%)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  dynamic: {
-    name: "Dynamic (10 Colors)",
-    barColor: "dynamic",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-  transparent: {
-    name: "Crystal Clear",
-    barColor: "rgba(255, 255, 255, 0.25)",
-    backgroundColor: "transparent",
-    textColor: "#ffffff",
-  },
-};
+// How often the display is refreshed while running. Time itself comes from
+// the clock, so this only affects smoothness, not accuracy.
+const TICK_INTERVAL_MS = 250;
+
+// Stopwatches show tenths of a second, so they refresh faster
+const STOPWATCH_TICK_INTERVAL_MS = 100;
+
+// Pause between repeats of a completion sound that rings until dismissed
+const ALARM_REPEAT_GAP_MS = 1000;
+
+// Store key holding the persisted timer collection
+const TIMERS_STORE_KEY = "timers";
+
+// Store key holding where the bar was dragged to on each monitor
+const WINDOW_POSITIONS_STORE_KEY = "windowPositions";
+
+// Wait after the last move event before saving a dragged position
+const POSITION_SAVE_DELAY_MS = 500;
+
+// Store key holding the custom times listed in the tray menu
+const RECENT_TIMES_STORE_KEY = "recentTimes";
+
+// Single-timer keys written before multiple timers existed, read once to migrate
+const LEGACY_TIMER_STORE_KEY = "timer";
+const LEGACY_POMODORO_STORE_KEY = "pomodoro";
 
 const state: TimerState = {
-  mode: TimerMode.COUNTDOWN,
-  isRunning: false,
-  currentTime: 180, // default 3 minutes
-  totalTime: 180, // default 3 minutes
+  engine: createEngine(TimerMode.COUNTDOWN, 180 * 1000), // default 3 minutes
+  currentTime: 180,
   isEditMode: false,
 };
 
 let intervalId: number | null = null;
+let backgroundIntervalId: number | null = null;
 let store: Store;
+let historyStore: Store;
+
+// All timers. The focused timer's engine is `state.engine`, and its cycle,
+// session and preset live in the globals below while it has focus; they are
+// copied back into its entry when focus moves or the collection is saved.
+let timers: TimerEntry[] = [];
+let focusedTimerId = "";
+let timerLayout = TimerLayout.CYCLE;
+
+// History session for the current run, opened on the first start
+let activeSession: ActiveSession | null = null;
+
+// Active pomodoro cycle, null when not in pomodoro mode
+let pomodoro: PomodoroState | null = null;
+let pomodoroSettings: PomodoroSettings = DEFAULT_POMODORO_SETTINGS;
+
+// Active interval sequence, null when not in sequence mode
+let sequence: SequenceState | null = null;
+
+// Laps taken on the focused stopwatch since its last reset
+let laps: Lap[] = [];
+
+// Shortcut bindings and the accelerators currently registered with the OS
+let shortcuts: ShortcutBindings = DEFAULT_SHORTCUTS;
+let registeredAccelerators: string[] = [];
+
+// Index of the last preset applied, for the "next preset" shortcut
+let presetIndex = -1;
+
+// Preset whose theme and sound are in effect, null after other time changes
+let activePreset: PresetTime | null = null;
+
+// Theme picked by the user vs. theme currently on screen (a pomodoro phase
+// can temporarily show its own theme)
+let userTheme = "blue";
+let activeTheme = "blue";
+
+// Custom themes from the theme editor, and every theme by id
+let customThemes: CustomTheme[] = [];
+let allThemes = getAllThemes();
+
+// Dynamic theme settings, and its stops resolved for the current countdown
+// length (rebuilt when the length or the settings change)
+let dynamicTheme: DynamicThemeSettings = resolveDynamicTheme();
+let dynamicRamp: DynamicRamp | null = null;
+
+// Show a desktop notification when a countdown ends
+let notificationsEnabled = true;
+
+// Whether finished countdowns keep counting past zero, and how often they remind
+let overtimeSettings: OvertimeSettings = DEFAULT_OVERTIME_SETTINGS;
+
+// Commands and webhooks run on timer events
+let hooks: Hook[] = [];
+
+// Monitor and edge the bar opens on, and the spots it was dragged to. Moves
+// only count as drags after a press on the drag handle.
+let placementSettings: PlacementSettings = DEFAULT_PLACEMENT_SETTINGS;
+let savedPositions: SavedPositions = EMPTY_SAVED_POSITIONS;
+let windowDragged = false;
+let positionSaveTimeout: number | null = null;
+
+// Window size, text size and layout, and what currently shows the alternate layout
+let barSettings: BarSettings = DEFAULT_BAR_SETTINGS;
+let layoutHovered = false;
+let layoutToggled = false;
+
+// Local API settings, and the last status sent to its WebSocket clients
+let apiSettings: ApiSettings = DEFAULT_API_SETTINGS;
+let lastApiStatus = "";
+
+// Tray icon settings, the last status sent to the tray and when, and the
+// update waiting for the interval to pass
+let traySettings: TraySettings = DEFAULT_TRAY_SETTINGS;
+let lastTrayStatus = "";
+let lastTrayUpdate = 0;
+let trayUpdateTimeout: number | null = null;
+
+// Custom times typed on the bar, latest first, and the mode the tray menu
+// last checked
+let recentTimes: number[] = [];
+let trayMenuMode: TimerMode | null = null;
+
+// Mouse wheel adjustments, and the wheel distance short of a whole notch
+let adjustSettings: AdjustSettings = DEFAULT_ADJUST_SETTINGS;
+let wheelDeltaPx = 0;
+
+// Completion sound settings and the sound currently ringing. Each new alarm
+// bumps alarmRing so an older repeat loop knows to stop.
+let soundSettings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+let alarmPlayback: SoundPlayback | null = null;
+let alarmRing = 0;
+let alarmRinging = false;
 
 // DOM elements (will be initialized after DOMContentLoaded)
 let timerContainer: HTMLElement;
 let progressBar: HTMLElement;
 let timerDisplay: HTMLElement;
+let phaseLabel: HTMLElement;
+let timerName: HTMLElement;
+let barDetails: HTMLElement;
+let timerSegments: HTMLElement;
 let startPauseBtn: HTMLButtonElement;
+let lapBtn: HTMLButtonElement;
+let snoozeBtn: HTMLButtonElement;
 let resetBtn: HTMLButtonElement;
 
 // Initialize app
@@ -124,9 +301,21 @@ async function init() {
   timerContainer = document.getElementById("timer-container")!;
   progressBar = document.getElementById("progress-bar")!;
   timerDisplay = document.getElementById("timer-display")!;
+  phaseLabel = document.getElementById("phase-label")!;
+  timerName = document.getElementById("timer-name")!;
+  barDetails = document.getElementById("bar-details")!;
+  timerSegments = document.getElementById("timer-segments")!;
   startPauseBtn = document.getElementById("start-pause") as HTMLButtonElement;
+  lapBtn = document.getElementById("lap") as HTMLButtonElement;
+  snoozeBtn = document.getElementById("snooze") as HTMLButtonElement;
   resetBtn = document.getElementById("reset") as HTMLButtonElement;
   
+  // Start with a single timer; restoreTimerState may replace it
+  const firstTimer = createTimerEntry("Timer 1");
+  firstTimer.engine = state.engine;
+  timers = [firstTimer];
+  focusedTimerId = firstTimer.id;
+  
   console.log("DOM elements found:", {
     timerContainer: !!timerContainer,
     startPauseBtn: !!startPauseBtn,
@@ -140,77 +329,162 @@ async function init() {
   // Setup tray event listeners immediately (before async operations that might fail)
   console.log("Setting up tray event listeners...");
   
-  listen("open-settings", () => {
-    console.log("Received open-settings event (Custom Time)");
-    enterEditMode();
-    showTimerWindow();
+  // Tray menu clicks, named by the action registry
+  listen("menu-action", (event: any) => {
+    console.log("Received menu-action event:", event.payload);
+    const request = parseMenuId(String(event.payload));
+    if (!request) {
+      console.error("Unknown menu action:", event.payload);
+      return;
+    }
+    runAction(request.action, request.arg);
+  });
+  
+  listen("pomodoro-settings-updated", (event: any) => {
+    console.log("Received pomodoro-settings-updated event:", event.payload);
+    pomodoroSettings = resolvePomodoroSettings(event.payload as Partial<PomodoroSettings>);
+    if (pomodoro) {
+      renderTheme(pomodoroSettings.phaseThemes[pomodoro.phase] || userTheme);
+      updateDisplay();
+    }
   });
   
-  listen("set-time", (event: any) => {
-    console.log("Received set-time event:", event.payload);
-    setTime(event.payload as number);
+  // A backup was imported here or in the settings window: start over from the stored settings
+  listen("settings-imported", async () => {
+    console.log("Received settings-imported event");
+    await loadSettings();
+    renderFocusedTheme();
+    await refreshTrayMenu();
+    await registerShortcuts();
+    updateDisplay();
   });
   
-  listen("preset-selected", async (event: any) => {
-    console.log("Received preset-selected event:", event.payload);
-    const presetIndex = event.payload as number;
+  listen("themes-updated", (event: any) => {
+    console.log("Received themes-updated event:", event.payload);
+    customThemes = restoreCustomThemes(event.payload);
+    allThemes = getAllThemes(customThemes);
     
-    try {
-      const settings = await store.get<Settings>("settings");
-      const presets = settings?.presets || [
-        { seconds: 180, label: "3 minutes" },
-        { seconds: 300, label: "5 minutes" },
-        { seconds: 1500, label: "25 minutes" },
-      ];
-      
-      if (presetIndex >= 0 && presetIndex < presets.length) {
-        console.log("Setting time to preset:", presets[presetIndex]);
-        setTime(presets[presetIndex].seconds);
-      } else {
-        console.error("Invalid preset index:", presetIndex);
-      }
-    } catch (error) {
-      console.error("Failed to load preset:", error);
-      // Fallback to hardcoded defaults
-      const defaults = [180, 300, 1500];
-      if (presetIndex >= 0 && presetIndex < defaults.length) {
-        setTime(defaults[presetIndex]);
-      }
+    // Fall back to the default theme if the user's theme was deleted,
+    // otherwise re-render in case the theme on screen was edited
+    if (!allThemes[userTheme]) {
+      applyTheme("blue");
     }
+    renderFocusedTheme();
+    refreshTrayMenu();
+  });
+  
+  listen("dynamic-theme-updated", (event: any) => {
+    console.log("Received dynamic-theme-updated event:", event.payload);
+    dynamicTheme = resolveDynamicTheme(event.payload as Partial<DynamicThemeSettings>);
+    dynamicRamp = null;
+    updateDynamicColor();
+  });
+  
+  listen("shortcuts-updated", async (event: any) => {
+    console.log("Received shortcuts-updated event:", event.payload);
+    shortcuts = resolveShortcuts({ shortcuts: event.payload as ShortcutBindings });
+    
+    // Report bindings the OS refused back to the settings window
+    const failures = await registerShortcuts();
+    await emit("shortcuts-registered", failures);
+  });
+  
+  listen("notification-settings-updated", (event: any) => {
+    console.log("Received notification-settings-updated event:", event.payload);
+    notificationsEnabled = event.payload as boolean;
+  });
+  
+  listen("overtime-settings-updated", (event: any) => {
+    console.log("Received overtime-settings-updated event:", event.payload);
+    overtimeSettings = resolveOvertimeSettings(event.payload as Partial<OvertimeSettings>);
+  });
+  
+  listen("tray-settings-updated", (event: any) => {
+    console.log("Received tray-settings-updated event:", event.payload);
+    traySettings = resolveTraySettings(event.payload as Partial<TraySettings>);
+    publishTrayStatus();
+  });
+  
+  listen("adjust-settings-updated", (event: any) => {
+    console.log("Received adjust-settings-updated event:", event.payload);
+    adjustSettings = resolveAdjustSettings(event.payload as Partial<AdjustSettings>);
+  });
+  
+  listen("bar-settings-updated", (event: any) => {
+    console.log("Received bar-settings-updated event:", event.payload);
+    applyBarSettings(resolveBarSettings(event.payload as Partial<BarSettings>));
+  });
+  
+  listen("placement-settings-updated", (event: any) => {
+    console.log("Received placement-settings-updated event:", event.payload);
+    applyPlacementSettings(resolvePlacementSettings(event.payload as Partial<PlacementSettings>));
   });
   
-  listen("toggle-mode", () => {
-    console.log("Received toggle-mode event");
-    toggleMode();
+  listen("hooks-updated", (event: any) => {
+    console.log("Received hooks-updated event:", event.payload);
+    hooks = restoreHooks(event.payload);
   });
   
-  listen("change-theme", (event: any) => {
-    console.log("Received change-theme event:", event.payload);
-    applyTheme(event.payload as string);
+  listen("api-settings-updated", (event: any) => {
+    console.log("Received api-settings-updated event");
+    applyApiSettings(resolveApiSettings(event.payload as Partial<ApiSettings>));
+  });
+  
+  listen("sound-settings-updated", (event: any) => {
+    console.log("Received sound-settings-updated event:", event.payload);
+    soundSettings = resolveSoundSettings(event.payload as Partial<SoundSettings>);
+  });
+  
+  listen("notification-action", (event: any) => {
+    console.log("Received notification-action event:", event.payload);
+    const { action, id } = event.payload as { action: string; id: string };
+    runNotificationAction(action, id);
+  });
+  
+  // Arguments of a second launch, e.g. `timebar start 25m`, forwarded by the native side
+  listen("cli-command", async (event: any) => {
+    console.log("Received cli-command event:", event.payload);
+    const { id, args } = event.payload as { id: number; args: string[] };
+    const reply = await runCommandLine(args);
+    await emit(`cli-reply-${id}`, reply);
+  });
+  
+  // The laps window opened and wants the current list
+  listen("laps-requested", () => {
+    console.log("Received laps-requested event");
+    publishLaps();
+  });
+  
+  listen("laps-clear", () => {
+    console.log("Received laps-clear event");
+    clearLaps();
   });
   
   listen("presets-updated", async (event: any) => {
     console.log("Received presets-updated event:", event.payload);
-    const presets = event.payload as PresetTime[];
     
-    try {
-      // Rebuild tray menu with new presets
-      await invoke("rebuild_tray_menu", { presets });
-      console.log("Tray menu rebuilt with new presets");
-    } catch (error) {
-      console.error("Failed to rebuild tray menu:", error);
-    }
+    // Rebuild tray menu with new presets; sequences are read back from the
+    // store, saved by the same settings window save
+    await refreshTrayMenu(event.payload as PresetTime[]);
   });
   
   console.log("Tray event listeners set up");
   
   try {
-    store = await Store.load("settings.json");
+    store = await Store.load(SETTINGS_STORE_FILE);
+    historyStore = await Store.load(HISTORY_STORE_FILE);
     console.log("Store loaded");
     
     // Load settings
     await loadSettings();
     
+    // Restore timers left running or paused by a previous session
+    await restoreTimerState();
+    recentTimes = restoreRecentTimes(await store.get(RECENT_TIMES_STORE_KEY));
+    
+    // Build the tray menu with the presets and timers
+    await refreshTrayMenu();
+    
     // Register global shortcuts
     await registerShortcuts();
     console.log("Shortcuts registered");
@@ -227,67 +501,296 @@ async function init() {
   }
 }
 
-// Position window above taskbar (always use default - center of taskbar)
+// Restore the persisted timers, including time that passed while the app was closed
+async function restoreTimerState() {
+  try {
+    const collection = restoreTimerCollection(await store.get(TIMERS_STORE_KEY))
+      ?? await restoreLegacyTimer();
+    if (!collection) return;
+    
+    timers = collection.timers;
+    timerLayout = collection.layout;
+    timers.forEach((timer) => {
+      if ((timer.engine.mode === TimerMode.POMODORO && !timer.pomodoro) ||
+          (timer.engine.mode === TimerMode.SEQUENCE && !timer.sequence)) {
+        // Cycle or sequence data is missing, keep the time but drop back to a plain countdown
+        timer.engine.mode = TimerMode.COUNTDOWN;
+      }
+    });
+    loadTimer(timers.find((timer) => timer.id === collection.focusedId)!);
+    console.log("Restored timers:", timers);
+    renderFocusedTheme();
+    
+    if (isEngineRunning(state.engine)) {
+      if (isEngineComplete(state.engine) && !isInOvertime(activeSession)) {
+        // Countdown finished while the app was closed
+        updateDisplay();
+        onTimerComplete();
+      } else {
+        startTicking();
+      }
+    }
+    
+    // Background timers that finished while closed complete on the first tick
+    updateBackgroundTicking();
+  } catch (error) {
+    console.error("Failed to restore timer state:", error);
+  }
+}
+
+// Build a one-timer collection from the keys used before multiple timers
+async function restoreLegacyTimer() {
+  const engine = restoreEngine(await store.get(LEGACY_TIMER_STORE_KEY));
+  if (!engine) return null;
+  
+  const timer = createTimerEntry("Timer 1");
+  timer.engine = engine;
+  timer.pomodoro = restorePomodoroState(await store.get(LEGACY_POMODORO_STORE_KEY));
+  timer.session = await loadActiveSession(historyStore);
+  return { timers: [timer], focusedId: timer.id, layout: TimerLayout.CYCLE };
+}
+
+// Persist all timers so running timers survive restarts and crashes
+function saveTimerState() {
+  // Store may not be loaded yet if a tray event arrives during init
+  if (!store) return;
+  
+  syncFocusedTimer();
+  store.set(TIMERS_STORE_KEY, { timers, focusedId: focusedTimerId, layout: timerLayout })
+    .then(() => store.save())
+    .catch((error) => console.error("Failed to save timer state:", error));
+}
+
+// Open a history session when a run starts from scratch
+function beginSession() {
+  if (activeSession) return;
+  
+  activeSession = {
+    mode: state.engine.mode,
+    phase: pomodoro?.phase,
+    segment: sequence ? getCurrentSegment(sequence).label : undefined,
+    plannedSeconds: isCountdownMode(state.engine.mode) ? Math.round(state.engine.totalMs / 1000) : null,
+    startedAt: Date.now(),
+    pauses: 0,
+  };
+  saveTimerState();
+}
+
+// Close the open session and append it to the history. Without an explicit
+// outcome, countdowns count as abandoned and stopwatches as stopped.
+function endSession(outcome?: SessionOutcome) {
+  if (!activeSession) return;
+  
+  const session = activeSession;
+  activeSession = null;
+  saveTimerState();
+  
+  const now = Date.now();
+  let actualMs = getElapsedMs(state.engine, now);
+  let endedAt = now;
+  const { overtimeAlarms, ...record } = session;
+  const overtime = overtimeAlarms !== undefined;
+  if (isCountdownMode(session.mode) && !overtime) {
+    // A countdown noticed late (e.g. finished while the app was closed)
+    // really ended when it reached zero
+    const overrunMs = Math.max(0, actualMs - state.engine.totalMs);
+    actualMs -= overrunMs;
+    if (isEngineRunning(state.engine)) endedAt -= overrunMs;
+  }
+  
+  const actualSeconds = Math.round(actualMs / 1000);
+  if (!isWorthRecording(actualSeconds)) return;
+  
+  // A countdown in overtime reached zero, however it ends
+  const resolvedOutcome = overtime
+    ? SessionOutcome.COMPLETED
+    : outcome ?? (isCountdownMode(session.mode) ? SessionOutcome.ABANDONED : SessionOutcome.STOPPED);
+  const overrun = overtime ? { overrunSeconds: Math.round(getOvertimeMs(state.engine, now) / 1000) } : {};
+  
+  appendSession(historyStore, { ...record, endedAt, actualSeconds, outcome: resolvedOutcome, ...overrun })
+    .then(() => emit("history-updated"))
+    .catch((error) => console.error("Failed to record session:", error));
+}
+
+// Place the window on its monitor, at the spot it was last dragged to there
+// or snapped to the chosen edge, then show it
 async function positionWindow() {
   const { getCurrentWindow } = await import("@tauri-apps/api/window");
-  const window = getCurrentWindow();
+  const timerWindow = getCurrentWindow();
   
   try {
-    const defaultPos = await invoke<{ x: number; y: number }>("get_default_position");
-    console.log("Positioning window at:", defaultPos);
-    await invoke("set_window_position", {
-      x: defaultPos.x,
-      y: defaultPos.y,
-    });
-    console.log("Position set successfully");
+    savedPositions = restoreSavedPositions(await store.get(WINDOW_POSITIONS_STORE_KEY));
+    await placeWindow();
   } catch (error) {
     console.error("Error positioning window:", error);
   }
   
   // Always show window, even if positioning failed
   try {
-    await window.show();
+    await timerWindow.show();
     console.log("Window shown");
   } catch (error) {
     console.error("Error showing window:", error);
   }
+  
+  // Remember where the user drags the bar, once the moves settle
+  await timerWindow.onMoved(() => {
+    if (!windowDragged) return;
+    
+    if (positionSaveTimeout !== null) clearTimeout(positionSaveTimeout);
+    positionSaveTimeout = window.setTimeout(() => {
+      positionSaveTimeout = null;
+      windowDragged = false;
+      saveWindowPosition();
+    }, POSITION_SAVE_DELAY_MS);
+  });
 }
 
-// Apply theme
-function applyTheme(themeName: string) {
-  const theme = themes[themeName];
+// Connected monitors, and the primary one's name
+async function loadMonitors(): Promise<{ monitors: MonitorArea[]; primaryName: string | null }> {
+  const { availableMonitors, primaryMonitor } = await import("@tauri-apps/api/window");
+  const available = await availableMonitors();
+  const primary = await primaryMonitor();
+  const monitors = available.map(toMonitorArea);
+  
+  // Look the primary monitor up by position, since unnamed monitors get their name from the list order
+  const primaryName = primary
+    ? monitors.find((monitor) => monitor.position.x === primary.position.x && monitor.position.y === primary.position.y)?.name ?? null
+    : null;
+  return { monitors, primaryName };
+}
+
+// Move the window to its place on the monitor picked by the placement settings
+async function placeWindow() {
+  const { getCurrentWindow } = await import("@tauri-apps/api/window");
+  const { monitors, primaryName } = await loadMonitors();
+  const monitor = pickMonitor(monitors, placementSettings, savedPositions, primaryName);
+  if (!monitor) return;
+  
+  const size = await getCurrentWindow().outerSize();
+  const position = getWindowPlacement(monitor, size, placementSettings, savedPositions);
+  console.log("Positioning window on", monitor.name, "at:", position);
+  await invoke("set_window_position", { x: position.x, y: position.y });
+}
+
+// Save the dragged window's position for the monitor it ended up on
+async function saveWindowPosition() {
+  try {
+    const { getCurrentWindow } = await import("@tauri-apps/api/window");
+    const timerWindow = getCurrentWindow();
+    const position = await invoke<Point>("get_window_position");
+    const size = await timerWindow.outerSize();
+    const { monitors } = await loadMonitors();
+    
+    const centre = { x: position.x + Math.round(size.width / 2), y: position.y + Math.round(size.height / 2) };
+    const monitor = findMonitorAt(monitors, centre) ?? findMonitorAt(monitors, position);
+    if (!monitor) return;
+    
+    savedPositions = rememberPosition(savedPositions, monitor, position);
+    await store.set(WINDOW_POSITIONS_STORE_KEY, savedPositions);
+    await store.save();
+    console.log("Window position saved for", monitor.name, position);
+  } catch (error) {
+    console.error("Failed to save window position:", error);
+  }
+}
+
+// Size the window and its text and show the layout; a new size re-places the
+// window so it stays flush with its edge and on its monitor
+async function applyBarSettings(settings: BarSettings) {
+  const resized = settings.width !== barSettings.width || settings.height !== barSettings.height;
+  barSettings = settings;
+  document.documentElement.style.setProperty("--font-scale", (settings.fontScale / 100).toString());
+  layoutToggled = false;
+  renderLayout();
+  if (!resized) return;
+  
+  try {
+    const { getCurrentWindow, LogicalSize } = await import("@tauri-apps/api/window");
+    await getCurrentWindow().setSize(new LogicalSize(settings.width, settings.height));
+    await placeWindow();
+  } catch (error) {
+    console.error("Failed to resize window:", error);
+  }
+}
+
+// Show the resting layout, or the alternate one while hovered or toggled on
+function renderLayout() {
+  const layout = getActiveLayout(barSettings, layoutHovered, layoutToggled);
+  Object.values(BarLayout).forEach((name) => timerContainer.classList.toggle(`layout-${name}`, name === layout));
+}
+
+// New placement settings move the bar right away, snapped to the edge on
+// the chosen monitor instead of a spot saved there
+async function applyPlacementSettings(settings: PlacementSettings) {
+  const changed = settings.monitor !== placementSettings.monitor || settings.edge !== placementSettings.edge;
+  placementSettings = settings;
+  if (!changed) return;
+  
+  try {
+    const { monitors, primaryName } = await loadMonitors();
+    const monitor = pickMonitor(monitors, placementSettings, savedPositions, primaryName);
+    if (monitor) {
+      savedPositions = forgetPosition(savedPositions, monitor.name);
+      await store.set(WINDOW_POSITIONS_STORE_KEY, savedPositions);
+      await store.save();
+    }
+    await placeWindow();
+  } catch (error) {
+    console.error("Failed to apply window placement:", error);
+  }
+}
+
+// Render a theme without saving it (pomodoro phases use this for their colours)
+function renderTheme(themeName: string): boolean {
+  const theme = allThemes[themeName];
   if (!theme) {
     console.error("Theme not found:", themeName);
-    return;
+    return false;
   }
   
-  console.log("Applying theme:", theme.name);
+  console.log("Rendering theme:", theme.name);
+  activeTheme = themeName;
   document.documentElement.style.setProperty("--bar-color", theme.barColor);
   document.documentElement.style.setProperty("--background-color", theme.backgroundColor);
   document.documentElement.style.setProperty("--text-color", theme.textColor);
+  if (theme.fontFamily) {
+    document.documentElement.style.setProperty("--font-family", theme.fontFamily);
+  } else {
+    document.documentElement.style.removeProperty("--font-family");
+  }
   
   // Add/remove theme class for special styling
   const timerContainer = document.getElementById("timer-container");
   if (timerContainer) {
     // Remove all theme classes first
     timerContainer.classList.remove("theme-transparent");
+    Object.values(OutlineStyle).forEach((outline) => timerContainer.classList.remove(`outline-${outline}`));
     
     // Add specific theme class if needed
     if (themeName === "transparent") {
       timerContainer.classList.add("theme-transparent");
     }
+    timerContainer.classList.add(`outline-${theme.outline || OutlineStyle.SHADOW}`);
   }
   
-  // Save theme to settings
-  store.set("settings", {
-    theme: themeName,
-    barColor: theme.barColor,
-    backgroundColor: theme.backgroundColor,
-    textColor: theme.textColor,
-    startPauseKey: "PageUp",
-    resetKey: "PageDown",
-  });
-  store.save();
+  // Re-evaluate the dynamic colour straight away
+  updateDynamicColor();
+  
+  return true;
+}
+
+// Apply theme
+function applyTheme(themeName: string) {
+  if (!renderTheme(themeName)) return;
+  
+  console.log("Applying theme:", allThemes[themeName].name);
+  userTheme = themeName;
+  
+  // Save theme to settings, keeping presets, shortcuts and other fields
+  updateSettings(store, { theme: themeName })
+    .catch((error) => console.error("Failed to save theme:", error));
+  refreshTrayMenu();
   
   // Show and focus the timer window to see the theme change
   showTimerWindow();
@@ -296,136 +799,234 @@ function applyTheme(themeName: string) {
 // Load settings
 async function loadSettings() {
   try {
-    const settings = await store.get<Settings>("settings");
-    if (settings) {
-      // If theme is specified, apply it
-      if (settings.theme && themes[settings.theme]) {
-        applyTheme(settings.theme);
-      } else {
-        // Apply individual colors if no theme (legacy support)
-        if (settings.barColor) {
-          document.documentElement.style.setProperty("--bar-color", settings.barColor);
-        }
-        if (settings.backgroundColor) {
-          document.documentElement.style.setProperty("--background-color", settings.backgroundColor);
-        }
-        if (settings.textColor) {
-          document.documentElement.style.setProperty("--text-color", settings.textColor);
-        }
-      }
-      
-      // Load presets and rebuild tray menu
-      const presets = settings.presets || [
-        { seconds: 180, label: "3 minutes" },
-        { seconds: 300, label: "5 minutes" },
-        { seconds: 1500, label: "25 minutes (Pomodoro)" },
-      ];
-      await invoke("rebuild_tray_menu", { presets });
-    } else {
-      // No settings, apply default theme
-      applyTheme("blue");
-      
-      // Use default presets
-      const defaultPresets = [
-        { seconds: 180, label: "3 minutes" },
-        { seconds: 300, label: "5 minutes" },
-        { seconds: 1500, label: "25 minutes (Pomodoro)" },
-      ];
-      await invoke("rebuild_tray_menu", { presets: defaultPresets });
-    }
+    // Older layouts are migrated and invalid fields replaced by defaults
+    const settings = await readSettings(store);
+    pomodoroSettings = settings.pomodoro;
+    shortcuts = settings.shortcuts;
+    notificationsEnabled = settings.notifications;
+    overtimeSettings = settings.overtime;
+    soundSettings = settings.sounds;
+    customThemes = settings.customThemes;
+    allThemes = getAllThemes(customThemes);
+    dynamicTheme = settings.dynamicTheme;
+    dynamicRamp = null;
+    applyApiSettings(settings.api);
+    hooks = settings.hooks;
+    placementSettings = settings.placement;
+    traySettings = settings.tray;
+    adjustSettings = settings.adjust;
+    await applyBarSettings(settings.bar);
+    
+    applyTheme(settings.theme);
   } catch (error) {
     console.error("Error loading settings:", error);
     applyTheme("blue"); // Fallback to default theme
   }
 }
 
-// Register keyboard shortcuts (both global and local)
-async function registerShortcuts() {
-  try {
-    console.log("Attempting to register global shortcuts...");
-    
-    // Check and register PageUp for start/pause
+// Register global shortcuts for the current bindings, replacing any
+// previously registered ones. Returns the bindings the OS refused.
+async function registerShortcuts(): Promise<ShortcutFailure[]> {
+  console.log("Attempting to register global shortcuts...", shortcuts);
+  const failures: ShortcutFailure[] = [];
+  
+  // Release the old accelerators first so they can be reassigned
+  if (registeredAccelerators.length > 0) {
     try {
-      const pageUpRegistered = await isRegistered("PageUp");
-      console.log("PageUp already registered?", pageUpRegistered);
-      
-      if (!pageUpRegistered) {
-        await register("PageUp", (event) => {
-          console.log("PageUp GLOBAL shortcut triggered!", event);
-          // Only trigger on key press, not release
-          if (event.state === "Pressed") {
-            toggleTimer();
-          }
-        });
-        console.log("✓ PageUp global shortcut registered successfully");
-        
-        // Verify it was registered
-        const verifyPageUp = await isRegistered("PageUp");
-        console.log("PageUp registration verified:", verifyPageUp);
-      } else {
-        console.log("PageUp already registered (skipping)");
-      }
+      await unregister(registeredAccelerators);
     } catch (err) {
-      console.error("Failed to register PageUp:", err);
+      console.error("Failed to unregister old shortcuts:", err);
     }
+    registeredAccelerators = [];
+  }
+  
+  for (const action of Object.values(ShortcutAction)) {
+    const accelerator = shortcuts[action];
+    if (!accelerator) continue;
     
-    // Check and register PageDown for reset
     try {
-      const pageDownRegistered = await isRegistered("PageDown");
-      console.log("PageDown already registered?", pageDownRegistered);
-      
-      if (!pageDownRegistered) {
-        await register("PageDown", (event) => {
-          console.log("PageDown GLOBAL shortcut triggered!", event);
-          // Only trigger on key press, not release
-          if (event.state === "Pressed") {
-            resetTimer();
-          }
-        });
-        console.log("✓ PageDown global shortcut registered successfully");
-        
-        // Verify it was registered
-        const verifyPageDown = await isRegistered("PageDown");
-        console.log("PageDown registration verified:", verifyPageDown);
-      } else {
-        console.log("PageDown already registered (skipping)");
+      // Left over from a webview reload; registering again would fail
+      if (await isRegistered(accelerator)) {
+        await unregister(accelerator);
       }
-    } catch (err) {
-      console.error("Failed to register PageDown:", err);
-    }
-    
-    // Check and register End for show timer
-    try {
-      const endRegistered = await isRegistered("End");
-      console.log("End already registered?", endRegistered);
       
-      if (!endRegistered) {
-        await register("End", (event) => {
-          console.log("End GLOBAL shortcut triggered!", event);
-          // Only trigger on key press, not release
-          if (event.state === "Pressed") {
-            showTimerWindow();
-          }
-        });
-        console.log("✓ End global shortcut registered successfully");
-        
-        // Verify it was registered
-        const verifyEnd = await isRegistered("End");
-        console.log("End registration verified:", verifyEnd);
-      } else {
-        console.log("End already registered (skipping)");
-      }
+      await register(accelerator, (event) => {
+        // Only trigger on key press, not release
+        if (event.state === "Pressed") {
+          console.log(`${accelerator} GLOBAL shortcut triggered:`, action);
+          runShortcutAction(action);
+        }
+      });
+      registeredAccelerators.push(accelerator);
+      console.log(`✓ ${accelerator} registered for ${action}`);
     } catch (err) {
-      console.error("Failed to register End:", err);
+      console.error(`Failed to register ${accelerator} for ${action}:`, err);
+      failures.push({ action, accelerator, error: String(err) });
     }
-    
-    console.log("Global shortcuts setup complete");
+  }
+  
+  updateButtonTitles();
+  console.log("Global shortcuts setup complete");
+  return failures;
+}
+
+// Run the timer action bound to a shortcut
+function runShortcutAction(action: ShortcutAction) {
+  // While the alarm rings until dismissed, any shortcut only silences it
+  if (acknowledgeAlarm()) return;
+  
+  runAction(action);
+}
+
+// Run an action from the registry, whichever control surface it came from.
+// Actions aimed at one timer focus it first.
+function runAction(action: AppAction, arg?: string) {
+  switch (action) {
+    case AppAction.SHOW_WINDOW:
+      showTimerWindow();
+      break;
+    case AppAction.START_PAUSE:
+      if (arg) focusTimer(arg);
+      toggleTimer();
+      break;
+    case AppAction.RESET:
+      if (arg) focusTimer(arg);
+      resetTimer();
+      break;
+    case AppAction.TOGGLE_MODE:
+      toggleMode();
+      break;
+    case AppAction.SET_MODE:
+      if (arg === TimerMode.COUNTDOWN || arg === TimerMode.STOPWATCH) setMode(arg);
+      // The native menu ticks an item when it is clicked; put the mark back
+      refreshTrayMenu();
+      break;
+    case AppAction.NEXT_PRESET:
+      applyNextPreset();
+      break;
+    case AppAction.APPLY_PRESET:
+      applyPreset(Number(arg));
+      break;
+    case AppAction.START_SEQUENCE:
+      startSequence(Number(arg));
+      break;
+    case AppAction.SET_TIME:
+      endPomodoro();
+      endSequence();
+      clearActivePreset();
+      setTime(Number(arg));
+      break;
+    case AppAction.CUSTOM_TIME:
+      enterEditMode();
+      showTimerWindow();
+      break;
+    case AppAction.ADD_MINUTE:
+      addTime(60);
+      break;
+    case AppAction.ADD_FIVE_MINUTES:
+      addTime(5 * 60);
+      break;
+    case AppAction.SUBTRACT_MINUTE:
+      addTime(-60);
+      break;
+    case AppAction.ADJUST_TIME:
+      addTime(Number(arg));
+      break;
+    case AppAction.SNOOZE:
+      if (canSnooze()) snoozeTimer();
+      break;
+    case AppAction.LAP:
+      recordLap();
+      break;
+    case AppAction.POMODORO_START:
+      startPomodoro();
+      break;
+    case AppAction.POMODORO_SKIP:
+      skipPomodoroPhase();
+      break;
+    case AppAction.POMODORO_END:
+      endPomodoro();
+      break;
+    case AppAction.ADD_TIMER:
+      addTimer();
+      break;
+    case AppAction.NEXT_TIMER:
+      focusNextTimer();
+      break;
+    case AppAction.FOCUS_TIMER:
+      if (arg) focusTimer(arg);
+      showTimerWindow();
+      break;
+    case AppAction.RENAME_TIMER:
+      if (arg) focusTimer(arg);
+      showTimerWindow();
+      renameTimer();
+      break;
+    case AppAction.REMOVE_TIMER:
+      removeTimer(arg || focusedTimerId);
+      break;
+    case AppAction.TIMER_LAYOUT:
+      toggleTimerLayout();
+      break;
+    case AppAction.SET_THEME:
+      if (arg) applyTheme(arg);
+      break;
+    case AppAction.OPEN_SETTINGS:
+      invoke("open_preset_settings").catch((error) => console.error("Failed to open settings:", error));
+      break;
+    case AppAction.OPEN_STATISTICS:
+      invoke("open_stats_window").catch((error) => console.error("Failed to open statistics:", error));
+      break;
+    case AppAction.OPEN_LAPS:
+      invoke("open_laps_window").catch((error) => console.error("Failed to open laps:", error));
+      break;
+    case AppAction.EXPORT_BACKUP:
+      exportBackup(store, historyStore, arg === "history").catch((error) => {
+        console.error("Failed to export backup:", error);
+        alert(`Failed to export settings: ${error}`);
+      });
+      break;
+    case AppAction.IMPORT_BACKUP:
+      runBackupImport(arg as ImportMode);
+      break;
+    default:
+      console.error("Unknown action:", action);
+  }
+}
+
+// Import a backup picked by the user, confirming a replace first
+async function runBackupImport(mode: ImportMode) {
+  if (mode === ImportMode.REPLACE &&
+      !confirm("Replace your presets, themes, shortcuts and other settings with the backup's?")) {
+    return;
+  }
+  try {
+    const result = await importBackup(store, historyStore, mode);
+    if (result) alert(describeImport(result));
   } catch (error) {
-    console.error("Error in registerShortcuts:", error);
-    console.log("Will use local keyboard events as fallback");
+    console.error("Failed to import backup:", error);
+    alert(`Failed to import settings: ${error instanceof Error ? error.message : error}`);
   }
 }
 
+// Action bound to a local key press, if any
+function findShortcutAction(e: KeyboardEvent): ShortcutAction | undefined {
+  return Object.values(ShortcutAction).find((action) => matchesAccelerator(e, shortcuts[action]));
+}
+
+// Show the current bindings in the button tooltips
+function updateButtonTitles() {
+  const startPauseKey = formatAccelerator(shortcuts[ShortcutAction.START_PAUSE]);
+  startPauseBtn.title = `${isEngineRunning(state.engine) ? "Pause" : "Start"} (${startPauseKey})`;
+  resetBtn.title = `Reset (${formatAccelerator(shortcuts[ShortcutAction.RESET])})`;
+  
+  const lapKey = shortcuts[ShortcutAction.LAP];
+  lapBtn.title = `Lap${lapKey ? ` (${formatAccelerator(lapKey)})` : ""} — right-click for all laps`;
+  
+  const snoozeKey = shortcuts[ShortcutAction.SNOOZE];
+  snoozeBtn.title = `Snooze: ${formatStep(SNOOZE_SECONDS)} more${snoozeKey ? ` (${formatAccelerator(snoozeKey)})` : ""}`;
+}
+
 // Setup event listeners
 function setupEventListeners() {
   console.log("Setting up event listeners...");
@@ -437,6 +1038,26 @@ function setupEventListeners() {
     toggleTimer();
   });
   
+  // Lap button, shown in stopwatch mode; right-click opens the lap list
+  lapBtn.addEventListener("click", (e) => {
+    console.log("Lap button clicked");
+    e.stopPropagation();
+    recordLap();
+  });
+  
+  lapBtn.addEventListener("contextmenu", (e) => {
+    e.preventDefault();
+    e.stopPropagation();
+    invoke("open_laps_window").catch((error) => console.error("Failed to open laps window:", error));
+  });
+  
+  // Snooze button, shown once a countdown has ended
+  snoozeBtn.addEventListener("click", (e) => {
+    console.log("Snooze button clicked");
+    e.stopPropagation();
+    if (canSnooze()) snoozeTimer();
+  });
+  
   // Reset button
   resetBtn.addEventListener("click", (e) => {
     console.log("Reset button clicked");
@@ -444,21 +1065,69 @@ function setupEventListeners() {
     resetTimer();
   });
   
+  // Mouse wheel over the bar: up adds time, down takes it off, Shift for bigger steps
+  timerContainer.addEventListener("wheel", (e) => {
+    if (!adjustSettings.wheel || state.isEditMode) return;
+    e.preventDefault();
+    
+    // Touchpads send many small deltas; act on whole notches only
+    wheelDeltaPx += e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? e.deltaY : Math.sign(e.deltaY) * WHEEL_NOTCH_PX;
+    const { notches, remainderPx } = takeWheelNotches(wheelDeltaPx);
+    wheelDeltaPx = remainderPx;
+    if (notches === 0) return;
+    
+    const step = adjustSettings.wheelStepSeconds * (e.shiftKey ? WHEEL_SHIFT_MULTIPLIER : 1);
+    addTime(notches * step);
+  }, { passive: false });
+  
+  // A press anywhere on the bar silences an alarm ringing until dismissed,
+  // without also reaching the buttons or the drag region
+  timerContainer.addEventListener("mousedown", (e) => {
+    if (!acknowledgeAlarm()) return;
+    
+    e.stopPropagation();
+    e.preventDefault();
+    timerContainer.addEventListener("click", (click) => click.stopPropagation(), { capture: true, once: true });
+  }, { capture: true });
+  
+  // Moves that follow a press on the drag handle are the user's drags
+  document.getElementById("drag-handle")?.addEventListener("mousedown", () => {
+    windowDragged = true;
+  });
+  
+  // Switch to the alternate layout on hover or double-click, as configured
+  timerContainer.addEventListener("mouseenter", () => {
+    layoutHovered = true;
+    renderLayout();
+  });
+  
+  timerContainer.addEventListener("mouseleave", () => {
+    layoutHovered = false;
+    renderLayout();
+  });
+  
+  timerContainer.addEventListener("dblclick", (e) => {
+    if (barSettings.switchOn !== LayoutSwitch.DOUBLE_CLICK) return;
+    if ((e.target as HTMLElement).closest("button, input")) return;
+    
+    layoutToggled = !layoutToggled;
+    renderLayout();
+  });
+  
+  // Double-click the timer name to rename it
+  timerName.addEventListener("dblclick", (e) => {
+    e.stopPropagation();
+    renameTimer();
+  });
+  
   // Keyboard shortcuts (local)
   document.addEventListener("keydown", (e) => {
     console.log("Key pressed:", e.code, "key:", e.key);
-    if (e.code === "PageUp") {
-      e.preventDefault();
-      console.log("PageUp pressed - toggling timer");
-      toggleTimer();
-    } else if (e.code === "PageDown") {
-      e.preventDefault();
-      console.log("PageDown pressed - resetting timer");
-      resetTimer();
-    } else if (e.code === "End") {
+    const action = findShortcutAction(e);
+    if (action) {
       e.preventDefault();
-      console.log("End pressed - showing timer window");
-      showTimerWindow();
+      console.log("Local shortcut pressed:", action);
+      runShortcutAction(action);
     }
   });
   
@@ -481,16 +1150,33 @@ function toggleMode() {
     exitEditMode(false); // Don't save, just exit
   }
   
+  // Leaving a pomodoro cycle or a sequence continues from countdown mode
+  endPomodoro();
+  endSequence();
+  clearActivePreset();
+  
+  endSession();
   stopTimer();
-  state.mode = state.mode === TimerMode.COUNTDOWN ? TimerMode.STOPWATCH : TimerMode.COUNTDOWN;
-  state.currentTime = state.mode === TimerMode.COUNTDOWN ? state.totalTime : 0;
+  state.engine.mode = state.engine.mode === TimerMode.COUNTDOWN ? TimerMode.STOPWATCH : TimerMode.COUNTDOWN;
+  resetEngine(state.engine);
+  clearLaps();
   updateDisplay();
+  saveTimerState();
+}
+
+// Switch to countdown or stopwatch. A pomodoro cycle or sequence first drops
+// back to countdown, so the mode is checked again after the first switch.
+function setMode(mode: TimerMode) {
+  if (mode === state.engine.mode) return;
+  
+  toggleMode();
+  if (mode !== state.engine.mode) toggleMode();
 }
 
 // Toggle timer start/pause
 function toggleTimer() {
-  console.log("toggleTimer() called, isRunning:", state.isRunning);
-  if (state.isRunning) {
+  console.log("toggleTimer() called, isRunning:", isEngineRunning(state.engine));
+  if (isEngineRunning(state.engine)) {
     pauseTimer();
   } else {
     startTimer();
@@ -499,39 +1185,78 @@ function toggleTimer() {
 
 // Start timer
 function startTimer() {
-  console.log("startTimer() called, isRunning:", state.isRunning);
-  if (state.isRunning) return;
+  console.log("startTimer() called, isRunning:", isEngineRunning(state.engine));
+  if (isEngineRunning(state.engine)) return;
   
-  state.isRunning = true;
+  // Starting a finished countdown begins a fresh run; one paused in
+  // overtime carries on counting
+  if (isEngineComplete(state.engine) && !isInOvertime(activeSession)) {
+    resetEngine(state.engine);
+  }
+  const resuming = state.engine.accumulatedMs > 0;
+  
+  beginSession();
+  startEngine(state.engine);
+  startTicking();
+  saveTimerState();
+  fireHooks(resuming ? HookEvent.RESUME : HookEvent.START);
+}
+
+// Switch the UI to running and refresh it periodically from the engine
+function startTicking() {
   timerContainer.classList.add("timer-running");
   startPauseBtn.textContent = "⏸";
-  startPauseBtn.title = "Pause (PageUp)";
+  updateButtonTitles();
   
-  console.log("Starting interval, currentTime:", state.currentTime, "mode:", state.mode);
+  console.log("Starting interval, currentTime:", state.currentTime, "mode:", state.engine.mode);
   
-  intervalId = window.setInterval(() => {
-    if (state.mode === TimerMode.COUNTDOWN) {
-      state.currentTime = Math.max(0, state.currentTime - 1);
-      if (state.currentTime === 0) {
-        onTimerComplete();
-      }
-    } else {
-      state.currentTime++;
-    }
-    updateDisplay();
-  }, 1000);
+  if (intervalId !== null) {
+    clearInterval(intervalId);
+  }
+  const interval = state.engine.mode === TimerMode.STOPWATCH ? STOPWATCH_TICK_INTERVAL_MS : TICK_INTERVAL_MS;
+  intervalId = window.setInterval(tick, interval);
   
   console.log("Timer started, intervalId:", intervalId);
 }
 
+// Refresh the display from the clock and detect completion
+function tick() {
+  updateDisplay();
+  if (isInOvertime(activeSession)) {
+    remindOvertime(activeSession!, state.engine, activePreset);
+  } else if (isEngineComplete(state.engine)) {
+    onTimerComplete();
+  }
+}
+
 // Pause timer
 function pauseTimer() {
-  if (!state.isRunning) return;
+  if (!isEngineRunning(state.engine)) return;
   
-  state.isRunning = false;
+  stopTimer();
+  fireHooks(HookEvent.PAUSE);
+}
+
+// Stop the clock before a reset, a new time or completion; unlike
+// pauseTimer, no pause hook runs
+function stopTimer() {
+  if (!isEngineRunning(state.engine)) return;
+  
+  pauseEngine(state.engine);
+  if (activeSession) {
+    activeSession.pauses++;
+    saveTimerState();
+  }
+  stopTicking();
+  updateDisplay();
+  saveTimerState();
+}
+
+// Switch the UI to paused and stop refreshing it; the engine is left as is
+function stopTicking() {
   timerContainer.classList.remove("timer-running");
   startPauseBtn.textContent = "▶";
-  startPauseBtn.title = "Start (PageUp)";
+  updateButtonTitles();
   
   if (intervalId !== null) {
     clearInterval(intervalId);
@@ -539,80 +1264,43 @@ function pauseTimer() {
   }
 }
 
-// Stop timer
-function stopTimer() {
-  pauseTimer();
-}
-
 // Reset timer
 function resetTimer() {
+  endSession();
   stopTimer();
   timerContainer.classList.remove("timer-complete");
-  state.currentTime = state.mode === TimerMode.COUNTDOWN ? state.totalTime : 0;
+  resetEngine(state.engine);
+  clearLaps();
   updateDisplay();
+  saveTimerState();
+  fireHooks(HookEvent.RESET);
 }
 
-// Parse time input in MM:SS format
-function parseTimeInput(input: string): number | null {
-  const trimmed = input.trim();
-  
-  // Try HH:MM:SS format first
-  let match = trimmed.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
-  if (match) {
-    const hours = parseInt(match[1], 10);
-    const minutes = parseInt(match[2], 10);
-    const seconds = parseInt(match[3], 10);
-    
-    // Validate ranges
-    if (minutes >= 60 || seconds >= 60) {
-      console.error("Minutes and seconds must be less than 60");
-      return null;
-    }
-    
-    if (hours < 0 || minutes < 0 || seconds < 0) {
-      console.error("Time values cannot be negative");
-      return null;
-    }
-    
-    const totalSeconds = hours * 3600 + minutes * 60 + seconds;
-    
-    if (totalSeconds === 0) {
-      console.error("Total time cannot be zero");
-      return null;
-    }
-    
-    return totalSeconds;
-  }
+// Record a lap on a running stopwatch; the split is the time shown on the bar
+function recordLap() {
+  if (state.engine.mode !== TimerMode.STOPWATCH || !isEngineRunning(state.engine)) return;
   
-  // Try MM:SS format (backward compatible)
-  match = trimmed.match(/^(\d{1,2}):(\d{2})$/);
-  if (match) {
-    const minutes = parseInt(match[1], 10);
-    const seconds = parseInt(match[2], 10);
-    
-    // Validate ranges
-    if (seconds >= 60) {
-      console.error("Seconds must be less than 60");
-      return null;
-    }
-    
-    if (minutes < 0 || seconds < 0) {
-      console.error("Time values cannot be negative");
-      return null;
-    }
-    
-    const totalSeconds = minutes * 60 + seconds;
-    
-    if (totalSeconds === 0) {
-      console.error("Total time cannot be zero");
-      return null;
-    }
-    
-    return totalSeconds;
-  }
+  laps = addLap(laps, createLap(laps, getElapsedMs(state.engine)));
+  console.log("Lap recorded:", formatLastLap(laps));
+  updateDisplay();
+  saveTimerState();
+  publishLaps();
+}
+
+// Forget the focused timer's laps, after a reset or a new time
+function clearLaps() {
+  if (laps.length === 0) return;
   
-  console.error("Invalid time format. Expected MM:SS or HH:MM:SS (e.g., 05:30 or 01:30:00)");
-  return null;
+  laps = [];
+  updateDisplay();
+  saveTimerState();
+  publishLaps();
+}
+
+// Send the focused timer's laps to the laps window, if it is open
+function publishLaps() {
+  emit("laps-updated", { name: getFocusedTimer().name, laps })
+    .catch((error) => console.error("Failed to publish laps:", error));
 }
 
 // Enter edit mode for custom time input
@@ -620,7 +1308,7 @@ function enterEditMode() {
   console.log("Entering edit mode");
   
   // Stop timer if running
-  if (state.isRunning) {
+  if (isEngineRunning(state.engine)) {
     pauseTimer();
   }
   
@@ -645,6 +1333,12 @@ function enterEditMode() {
   // Insert input in place of timer display
   timerDisplay.parentElement!.insertBefore(input, timerDisplay);
   
+  // Reason the typed time was rejected, shown under the input
+  const error = document.createElement("div");
+  error.id = "time-input-error";
+  error.className = "time-input-error";
+  timerDisplay.parentElement!.insertBefore(error, timerDisplay);
+  
   // Focus and select all text
   input.focus();
   input.select();
@@ -660,26 +1354,17 @@ function enterEditMode() {
     } else if (e.key === "Escape") {
       e.preventDefault();
       exitEditMode(false);
-    } else if (e.key === "PageUp" || e.key === "PageDown") {
-      // Don't prevent default - let global shortcuts handle it
-      // But exit edit mode first so shortcuts work properly
-      e.preventDefault();
+    } else if (findShortcutAction(e)) {
+      // Exit edit mode first; the event then bubbles up to the local
+      // shortcut handler, which runs the action
       exitEditMode(false);
-      // Let the shortcut handlers run after a tiny delay
-      setTimeout(() => {
-        if (e.key === "PageUp") {
-          toggleTimer();
-        } else if (e.key === "PageDown") {
-          resetTimer();
-        }
-      }, 10);
     }
   });
   
-  // Input validation: only allow digits and colon
-  input.addEventListener("input", (e) => {
-    const target = e.target as HTMLInputElement;
-    target.value = target.value.replace(/[^0-9:]/g, "");
+  // Clear the error as soon as the input changes
+  input.addEventListener("input", () => {
+    input.classList.remove("invalid");
+    error.textContent = "";
   });
   
   console.log("Edit mode active, input focused");
@@ -690,25 +1375,48 @@ function exitEditMode(save: boolean) {
   console.log("Exiting edit mode, save:", save);
   
   const input = document.getElementById("time-input") as HTMLInputElement;
+  const error = document.getElementById("time-input-error");
+  let startAfterExit = false;
   
   if (save && input) {
-    const inputValue = input.value;
-    const parsedTime = parseTimeInput(inputValue);
-    
-    if (parsedTime !== null) {
-      // Valid time, update state
-      state.currentTime = parsedTime;
-      state.totalTime = parsedTime;
-      console.log(`Time set to ${parsedTime} seconds`);
+    const result = parseDuration(input.value);
+    
+    if (!result.ok) {
+      // Stay in edit mode and show what is wrong
+      console.log("Invalid time input:", result.error);
+      input.classList.add("invalid");
+      if (error) error.textContent = result.error;
+      input.select();
+      return;
+    }
+    
+    const { kind, seconds } = result.duration;
+    if (kind === DurationKind.RELATIVE) {
+      // "+5m" / "-1m" adjust the current time
+      addTime(seconds);
     } else {
-      console.error("Invalid time input, discarding changes");
+      endSession();
+      if (kind === DurationKind.UNTIL && !isCountdownMode(state.engine.mode)) {
+        state.engine.mode = TimerMode.COUNTDOWN;
+      }
+      state.engine.totalMs = seconds * 1000;
+      resetEngine(state.engine);
+      saveTimerState();
+      
+      // A countdown to a clock time is only right if it starts now
+      startAfterExit = kind === DurationKind.UNTIL;
+      if (kind === DurationKind.ABSOLUTE) {
+        rememberRecentTime(seconds);
+      }
     }
+    console.log(`Time input applied: ${kind} ${seconds} seconds`);
   }
   
-  // Remove input element
+  // Remove input and error elements
   if (input) {
     input.remove();
   }
+  error?.remove();
   
   // Show timer display again
   timerDisplay.style.display = "";
@@ -721,140 +1429,492 @@ function exitEditMode(save: boolean) {
   // Update display with new or unchanged time
   updateDisplay();
   
+  if (startAfterExit) {
+    startTimer();
+  }
+  
   console.log("Edit mode exited");
 }
 
-// Play notification sound
-function playNotificationSound() {
-  try {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    
-    // Create a pleasant beep tone
-    const playTone = (frequency: number, startTime: number, duration: number) => {
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-      
-      oscillator.frequency.value = frequency;
-      oscillator.type = 'sine';
-      
-      // Fade in and out for smooth sound
-      gainNode.gain.setValueAtTime(0, audioContext.currentTime + startTime);
-      gainNode.gain.linearRampToValueAtTime(0.25, audioContext.currentTime + startTime + 0.02);
-      gainNode.gain.linearRampToValueAtTime(0, audioContext.currentTime + startTime + duration);
-      
-      oscillator.start(audioContext.currentTime + startTime);
-      oscillator.stop(audioContext.currentTime + startTime + duration);
-    };
-    
-    // Play 6 pleasant beeps in a melodic pattern (like a notification ringtone)
-    // Pattern: C-E-G-C-E-G (major chord ascending twice)
-    const beepDuration = 0.20;
-    const beepGap = 0.01;
+// Play the completion sound, repeating it until acknowledged if configured
+async function ringAlarm(sound?: string) {
+  stopAlarm();
+  const ring = ++alarmRing;
+  const soundId = resolveSoundId(sound, soundSettings);
+  alarmRinging = soundSettings.repeatUntilDismissed;
+  
+  do {
+    const playback = await playSound(soundId, soundSettings.volume);
+    if (!playback) break;
+    if (ring !== alarmRing) {
+      // Stopped or replaced while the sound was loading
+      playback.stop();
+      return;
+    }
     
-    playTone(523.25, 0, beepDuration);                                    // C5 - beep 1
-    playTone(659.25, beepDuration + beepGap, beepDuration);               // E5 - beep 2
-    playTone(783.99, (beepDuration + beepGap) * 2, beepDuration);        // G5 - beep 3
-    playTone(523.25, (beepDuration + beepGap) * 3, beepDuration);        // C5 - beep 4
-    playTone(659.25, (beepDuration + beepGap) * 4, beepDuration);        // E5 - beep 5
-    playTone(783.99, (beepDuration + beepGap) * 5, beepDuration * 1.5); // G5 - beep 6 (longer)
+    alarmPlayback = playback;
+    console.log("Completion sound played:", soundId);
+    await playback.ended;
     
-    console.log("Notification sound played (6 beeps)");
-  } catch (error) {
-    console.error("Failed to play notification sound:", error);
+    if (alarmRinging) {
+      await new Promise((resolve) => setTimeout(resolve, ALARM_REPEAT_GAP_MS));
+    }
+  } while (alarmRinging && ring === alarmRing);
+  
+  if (ring === alarmRing) {
+    alarmPlayback = null;
+    alarmRinging = false;
   }
 }
 
+// Silence the completion sound, including any pending repeats
+function stopAlarm() {
+  alarmRing++;
+  alarmRinging = false;
+  alarmPlayback?.stop();
+  alarmPlayback = null;
+}
+
+// Stop a sound that rings until dismissed; true if one was ringing
+function acknowledgeAlarm(): boolean {
+  if (!alarmRinging) return false;
+  
+  console.log("Alarm acknowledged");
+  stopAlarm();
+  timerContainer.classList.remove("timer-complete");
+  return true;
+}
+
 // Timer complete handler
 function onTimerComplete() {
+  // Plain countdowns may keep counting past zero instead of stopping
+  if (overtimeSettings.enabled && state.engine.mode === TimerMode.COUNTDOWN && activeSession) {
+    enterOvertime();
+    return;
+  }
+  
+  endSession(SessionOutcome.COMPLETED);
   stopTimer();
-  playNotificationSound();
-  timerContainer.classList.add("timer-complete");
+  publishApiEvent(ApiEventType.COMPLETE, getFocusedStatus());
+  fireHooks(HookEvent.COMPLETE);
+  // Each segment of a sequence ends with its own sound; the notification
+  // waits for the end of the run
+  ringAlarm(sequence ? getCurrentSegment(sequence).sound : activePreset?.sound);
+  if (!sequence || isLastSegment(sequence)) {
+    showCompletionNotification();
+  }
+  flashCompletion();
+  
+  if (pomodoro) {
+    advancePomodoro();
+  } else if (sequence) {
+    advanceSequence();
+  }
+}
+
+// Sound the alarm and carry on counting; the session stays open until the
+// timer is reset, given a new time or switched to another mode
+function enterOvertime() {
+  activeSession!.overtimeAlarms = getDueAlarms(getOvertimeMs(state.engine), overtimeSettings);
+  saveTimerState();
+  console.log("Countdown in overtime");
   
-  // Flash the window or play a sound here if desired
+  publishApiEvent(ApiEventType.COMPLETE, getFocusedStatus());
+  fireHooks(HookEvent.COMPLETE);
+  ringAlarm(activePreset?.sound);
+  showCompletionNotification();
+  flashCompletion();
+  updateDisplay();
+}
+
+// Ring again each time another reminder interval of overtime has passed
+function remindOvertime(session: ActiveSession, engine: TimerEngine, preset: PresetTime | null) {
+  const due = getDueAlarms(getOvertimeMs(engine), overtimeSettings);
+  if (due <= session.overtimeAlarms!) return;
+  
+  session.overtimeAlarms = due;
+  saveTimerState();
+  console.log("Overtime reminder:", due - 1);
+  ringAlarm(preset?.sound);
+  if (session === activeSession) flashCompletion();
+}
+
+// Flash for 3 seconds, or until acknowledged while the alarm keeps ringing
+function flashCompletion() {
+  timerContainer.classList.add("timer-complete");
   setTimeout(() => {
-    timerContainer.classList.remove("timer-complete");
+    if (!alarmRinging) {
+      timerContainer.classList.remove("timer-complete");
+    }
   }, 3000);
 }
 
+// Tell the user a countdown ended, even if the bar is hidden or they stepped away
+function showCompletionNotification() {
+  if (!notificationsEnabled) return;
+  
+  const timer = getFocusedTimer();
+  const duration = formatTime(sequence ? getSequenceSeconds(sequence.sequence) : Math.round(state.engine.totalMs / 1000));
+  const what = pomodoro
+    ? getPhaseLabel(pomodoro, pomodoroSettings)
+    : sequence?.sequence.name || activePreset?.label || "Countdown";
+  
+  invoke("show_completion_notification", {
+    title: `${timer.name} finished`,
+    body: `${what} (${duration}) is up`,
+    timerId: timer.id,
+    // A pomodoro cycle moves on by itself, so restarting or snoozing a phase is
+    // left out; so is restarting the last segment of a sequence
+    actions: !pomodoro && !sequence,
+  }).catch((error) => console.error("Failed to show notification:", error));
+}
+
+// Run a button pressed in a completion notification
+function runNotificationAction(action: string, id: string) {
+  // The timer may have been removed since the notification was shown
+  if (!timers.some((timer) => timer.id === id)) return;
+  
+  stopAlarm();
+  focusTimer(id);
+  timerContainer.classList.remove("timer-complete");
+  
+  switch (action) {
+    case "restart":
+      resetTimer();
+      startTimer();
+      break;
+    case "snooze":
+      snoozeTimer();
+      break;
+    case "dismiss":
+      break;
+    default:
+      console.error("Unknown notification action:", action);
+  }
+}
+
+// Start a new pomodoro cycle with a work phase
+function startPomodoro() {
+  endSequence();
+  clearActivePreset();
+  pomodoro = createPomodoroState();
+  enterPomodoroPhase();
+  startTimer();
+}
+
+// Load the current phase into the timer and show its theme and label
+function enterPomodoroPhase() {
+  if (!pomodoro) return;
+  
+  renderTheme(pomodoroSettings.phaseThemes[pomodoro.phase] || userTheme);
+  setTime(getPhaseSeconds(pomodoro.phase, pomodoroSettings), TimerMode.POMODORO);
+  saveTimerState();
+}
+
+// Move on to the next phase, starting it right away if auto-start is enabled
+function advancePomodoro() {
+  if (!pomodoro) return;
+  
+  pomodoro = nextPomodoroState(pomodoro, pomodoroSettings);
+  console.log("Pomodoro phase:", pomodoro.phase, "completed work:", pomodoro.completedWork);
+  enterPomodoroPhase();
+  fireHooks(HookEvent.PHASE_CHANGE);
+  
+  if (pomodoroSettings.autoStart) {
+    startTimer();
+  }
+}
+
+// Skip the rest of the current phase
+function skipPomodoroPhase() {
+  if (!pomodoro) return;
+  
+  timerContainer.classList.remove("timer-complete");
+  advancePomodoro();
+}
+
+// End the cycle and fall back to a plain countdown with the user's theme
+function endPomodoro() {
+  if (!pomodoro) return;
+  
+  pomodoro = null;
+  saveTimerState();
+  state.engine.mode = TimerMode.COUNTDOWN;
+  renderTheme(userTheme);
+  resetTimer();
+}
+
+// Start the saved sequence at the given index from its first segment
+async function startSequence(index: number) {
+  const sequences = await loadSequences();
+  if (index < 0 || index >= sequences.length) {
+    console.error("Invalid sequence index:", index);
+    return;
+  }
+  
+  endPomodoro();
+  clearActivePreset();
+  sequence = createSequenceState(sequences[index]);
+  console.log("Starting sequence:", sequence.sequence.name);
+  enterSequenceSegment();
+  startTimer();
+}
+
+// Load the current segment into the timer and show its colour and label
+function enterSequenceSegment() {
+  if (!sequence) return;
+  
+  renderFocusedTheme();
+  setTime(getCurrentSegment(sequence).seconds, TimerMode.SEQUENCE);
+  saveTimerState();
+}
+
+// Move on to the next segment and start it; after the last round the
+// sequence ends with the finished countdown left on the bar
+function advanceSequence() {
+  if (!sequence) return;
+  
+  const next = nextSequenceState(sequence);
+  if (!next) {
+    console.log("Sequence finished:", sequence.sequence.name);
+    sequence = null;
+    state.engine.mode = TimerMode.COUNTDOWN;
+    renderFocusedTheme();
+    updateDisplay();
+    saveTimerState();
+    return;
+  }
+  
+  sequence = next;
+  console.log("Sequence segment:", getSegmentLabel(sequence));
+  enterSequenceSegment();
+  fireHooks(HookEvent.PHASE_CHANGE);
+  startTimer();
+}
+
+// Leave the sequence and fall back to a plain countdown with the user's theme
+function endSequence() {
+  if (!sequence) return;
+  
+  sequence = null;
+  saveTimerState();
+  state.engine.mode = TimerMode.COUNTDOWN;
+  renderFocusedTheme();
+  resetTimer();
+}
+
+// Bar colour of the current sequence segment, if it has one
+function getSegmentColor(): string | undefined {
+  return sequence ? getCurrentSegment(sequence).color : undefined;
+}
+
 // Update display
 function updateDisplay() {
-  // Update time display
-  const hours = Math.floor(state.currentTime / 3600);
-  const minutes = Math.floor((state.currentTime % 3600) / 60);
-  const seconds = state.currentTime % 60;
+  state.currentTime = getDisplaySeconds(state.engine);
   
-  // Show HH:MM:SS if >= 1 hour, otherwise MM:SS
-  if (hours > 0) {
-    timerDisplay.textContent = `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  // Show the pomodoro phase and cycle position, the sequence segment, or the
+  // stopwatch's last lap
+  const stopwatch = state.engine.mode === TimerMode.STOPWATCH;
+  phaseLabel.textContent = pomodoro
+    ? getPhaseLabel(pomodoro, pomodoroSettings)
+    : sequence ? getSegmentLabel(sequence) : stopwatch ? formatLastLap(laps) : "";
+  timerContainer.classList.toggle("pomodoro-active", pomodoro !== null);
+  timerContainer.classList.toggle("sequence-active", sequence !== null);
+  timerContainer.classList.toggle("stopwatch-mode", stopwatch);
+  timerContainer.classList.toggle("laps-active", stopwatch && laps.length > 0);
+  timerContainer.classList.toggle("can-snooze", canSnooze());
+  
+  // Name the focused timer once there is more than one, or in the expanded layout
+  timerName.textContent = getFocusedTimer().name;
+  timerContainer.classList.toggle("multiple-timers", timers.length > 1);
+  barDetails.textContent = getBarDetails();
+  
+  // Past zero, count up from "-00:00" on a full bar in the overtime style
+  const overtime = isInOvertime(activeSession);
+  timerContainer.classList.toggle("timer-overtime", overtime);
+  
+  // Update time display; stopwatches show tenths of a second
+  if (overtime) {
+    timerDisplay.textContent = formatOvertime(getOvertimeMs(state.engine));
+  } else if (stopwatch) {
+    timerDisplay.textContent = formatPreciseTime(getElapsedMs(state.engine), 1);
   } else {
-    timerDisplay.textContent = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+    timerDisplay.textContent = formatTime(state.currentTime);
   }
   
   // Update progress bar
-  if (state.mode === TimerMode.COUNTDOWN) {
-    const progress = state.totalTime > 0 ? state.currentTime / state.totalTime : 0;
+  if (overtime) {
+    progressBar.style.transform = `scaleX(1)`;
+    
+  } else if (sequence) {
+    // Progress through the whole sequence, not just this segment
+    progressBar.style.transform = `scaleX(${getSequenceProgress(sequence, getElapsedMs(state.engine), state.engine.totalMs)})`;
+    
+  } else if (isCountdownMode(state.engine.mode)) {
+    const progress = getProgress(state.engine);
     progressBar.style.transform = `scaleX(${progress})`;
     
-    // Update dynamic color if using dynamic theme
-    updateDynamicColor(progress);
   } else {
     // For stopwatch, show full bar
     progressBar.style.transform = `scaleX(1)`;
   }
+  
+  // Update dynamic color if using dynamic theme
+  updateDynamicColor();
+  
+  renderTimerSegments();
+  publishTimerStatus();
+  publishTrayStatus();
+  
+  // Move the tray menu's mode check mark once it has been built
+  if (trayMenuMode !== null && trayMenuMode !== state.engine.mode) {
+    refreshTrayMenu();
+  }
 }
 
-// Update dynamic color based on progress
-async function updateDynamicColor(progress: number) {
-  try {
-    const settings = await store.get<Settings>("settings");
-    if (settings?.theme === "dynamic") {
-      let gradient: string;
-      
-      // 10 color stages for smooth transitions
-      if (progress > 0.9) {
-        // 100-90%: Deep Green
-        gradient = "linear-gradient(90deg, #065f46 0%, #10b981 100%)";
-      } else if (progress > 0.8) {
-        // 90-80%: Bright Green
-        gradient = "linear-gradient(90deg, #16a34a 0%, #4ade80 100%)";
-      } else if (progress > 0.7) {
-        // 80-70%: Light Green
-        gradient = "linear-gradient(90deg, #22c55e 0%, #86efac 100%)";
-      } else if (progress > 0.6) {
-        // 70-60%: Yellow-Green
-        gradient = "linear-gradient(90deg, #65a30d 0%, #a3e635 100%)";
-      } else if (progress > 0.5) {
-        // 60-50%: Yellow
-        gradient = "linear-gradient(90deg, #ca8a04 0%, #fbbf24 100%)";
-      } else if (progress > 0.4) {
-        // 50-40%: Light Orange
-        gradient = "linear-gradient(90deg, #ea580c 0%, #fb923c 100%)";
-      } else if (progress > 0.3) {
-        // 40-30%: Orange
-        gradient = "linear-gradient(90deg, #dc2626 0%, #f97316 100%)";
-      } else if (progress > 0.2) {
-        // 30-20%: Orange-Red
-        gradient = "linear-gradient(90deg, #b91c1c 0%, #ef4444 100%)";
-      } else if (progress > 0.1) {
-        // 20-10%: Red
-        gradient = "linear-gradient(90deg, #991b1b 0%, #dc2626 100%)";
-      } else {
-        // 10-0%: Deep Red (Critical!)
-        gradient = "linear-gradient(90deg, #7f1d1d 0%, #b91c1c 100%)";
-      }
-      
-      document.documentElement.style.setProperty("--bar-color", gradient);
+// Expanded layout line: the next pomodoro phase or sequence segment, and
+// when a running countdown ends
+function getBarDetails(): string {
+  const details: string[] = [];
+  
+  if (pomodoro) {
+    details.push(`Next: ${PHASE_LABELS[nextPomodoroState(pomodoro, pomodoroSettings).phase]}`);
+  } else if (sequence) {
+    const next = nextSequenceState(sequence);
+    details.push(next ? `Next: ${getSegmentLabel(next)}` : "Last segment");
+  }
+  
+  if (isCountdownMode(state.engine.mode) && !isEngineComplete(state.engine)) {
+    if (isEngineRunning(state.engine)) {
+      details.push(formatEndTime(getRemainingMs(state.engine)));
+    } else if (state.engine.accumulatedMs > 0) {
+      details.push("Paused");
     }
+  }
+  return details.join(" · ");
+}
+
+// Update the dynamic theme's colour and end effect for the time remaining
+function updateDynamicColor() {
+  // Follows the theme on screen, so a pomodoro phase theme takes precedence;
+  // a sequence segment's own colour replaces it
+  const dynamic = activeTheme === "dynamic" && !getSegmentColor();
+  const totalSeconds = state.engine.totalMs / 1000;
+  
+  // Stopwatches have no time remaining, so they keep the first colour
+  const remainingSeconds = isCountdownMode(state.engine.mode) ? getRemainingMs(state.engine) / 1000 : totalSeconds;
+  
+  const effect = dynamic && isEngineRunning(state.engine) && isCountdownMode(state.engine.mode)
+    && !isInOvertime(activeSession)
+    ? getEndEffect(dynamicTheme, remainingSeconds)
+    : EndEffect.NONE;
+  timerContainer?.classList.toggle("effect-pulse", effect === EndEffect.PULSE);
+  timerContainer?.classList.toggle("effect-blink", effect === EndEffect.BLINK);
+  
+  if (!dynamic) return;
+  
+  if (!dynamicRamp || dynamicRamp.totalSeconds !== totalSeconds) {
+    dynamicRamp = resolveDynamicRamp(dynamicTheme, totalSeconds);
+  }
+  const color = getDynamicColor(dynamicRamp, remainingSeconds);
+  document.documentElement.style.setProperty("--bar-color", getDynamicGradient(color));
+}
+
+// Load the user's sequences, falling back to the defaults
+async function loadSequences(): Promise<Sequence[]> {
+  try {
+    const settings = await readSettings(store);
+    return settings.sequences;
   } catch (error) {
-    // Silently fail if store is not ready
+    console.error("Failed to load sequences:", error);
+    return DEFAULT_SEQUENCES;
+  }
+}
+
+// Load the user's presets, falling back to the defaults
+async function loadPresets(): Promise<PresetTime[]> {
+  try {
+    const settings = await readSettings(store);
+    return settings.presets;
+  } catch (error) {
+    console.error("Failed to load presets:", error);
+    return DEFAULT_PRESETS;
+  }
+}
+
+// Apply the preset at the given index, including its mode, theme and sound
+async function applyPreset(index: number) {
+  const presets = await loadPresets();
+  
+  if (index >= 0 && index < presets.length) {
+    const preset = presets[index];
+    console.log("Setting time to preset:", preset);
+    presetIndex = index;
+    endPomodoro();
+    endSequence();
+    
+    activePreset = preset;
+    if (!preset.theme || !renderTheme(preset.theme)) {
+      renderTheme(userTheme);
+    }
+    
+    setTime(preset.seconds, preset.mode === TimerMode.STOPWATCH ? TimerMode.STOPWATCH : TimerMode.COUNTDOWN);
+  } else {
+    console.error("Invalid preset index:", index);
   }
 }
 
-// Set timer to specific time (in seconds)
-function setTime(seconds: number) {
+// Apply the preset after the last one used, wrapping around
+async function applyNextPreset() {
+  const presets = await loadPresets();
+  await applyPreset((presetIndex + 1) % presets.length);
+}
+
+// Drop the active preset's theme and sound
+function clearActivePreset() {
+  if (!activePreset) return;
+  
+  activePreset = null;
+  renderTheme(userTheme);
+}
+
+// Add time to the current run without stopping it
+function addTime(seconds: number) {
+  console.log("Adding", seconds, "seconds");
+  if (!adjustEngine(state.engine, seconds * 1000)) {
+    console.log("No time left to take off");
+    return;
+  }
+  
+  if (activeSession && activeSession.plannedSeconds !== null) {
+    activeSession.plannedSeconds = Math.round(state.engine.totalMs / 1000);
+    // Enough added time brings an overtime countdown back before zero
+    if (!isEngineComplete(state.engine)) delete activeSession.overtimeAlarms;
+    saveTimerState();
+  }
+  
+  timerContainer.classList.remove("timer-complete");
+  updateDisplay();
+  saveTimerState();
+}
+
+// Whether the focused timer is a countdown that has ended, or is in overtime.
+// A pomodoro cycle or a sequence moves on by itself instead.
+function canSnooze(): boolean {
+  return isEngineComplete(state.engine) && !pomodoro && !sequence;
+}
+
+// Count down a few more minutes after a countdown ended
+function snoozeTimer() {
+  console.log("Snoozing for", SNOOZE_SECONDS, "seconds");
+  stopAlarm();
+  timerContainer.classList.remove("timer-complete");
+  setTime(SNOOZE_SECONDS);
+  startTimer();
+}
+
+// Set timer to specific time (in seconds), optionally switching mode
+function setTime(seconds: number, mode?: TimerMode) {
   console.log("Setting timer to", seconds, "seconds");
   
   // Exit edit mode if active
@@ -862,15 +1922,409 @@ function setTime(seconds: number) {
     exitEditMode(false); // Don't save, just exit
   }
   
+  endSession();
   stopTimer();
-  state.currentTime = seconds;
-  state.totalTime = seconds;
+  if (mode) {
+    state.engine.mode = mode;
+  }
+  state.engine.totalMs = seconds * 1000;
+  resetEngine(state.engine);
+  clearLaps();
   updateDisplay();
+  saveTimerState();
   
   // Show the timer window after setting time
   showTimerWindow();
 }
 
+// Timer currently shown on the bar
+function getFocusedTimer(): TimerEntry {
+  return timers.find((timer) => timer.id === focusedTimerId)!;
+}
+
+// Copy the focused timer's engine, cycle, sequence, session and preset into its entry
+function syncFocusedTimer() {
+  const timer = timers.find((timer) => timer.id === focusedTimerId);
+  if (!timer) return;
+  
+  timer.engine = state.engine;
+  timer.pomodoro = pomodoro;
+  timer.sequence = sequence;
+  timer.session = activeSession;
+  timer.preset = activePreset;
+  timer.laps = laps;
+}
+
+// Make a timer's engine, cycle, sequence, session and preset the current ones
+function loadTimer(timer: TimerEntry) {
+  focusedTimerId = timer.id;
+  state.engine = timer.engine;
+  pomodoro = timer.pomodoro;
+  sequence = timer.sequence;
+  activeSession = timer.session;
+  activePreset = timer.preset;
+  laps = timer.laps;
+}
+
+// Show the focused timer's theme: pomodoro phase, then preset, then the
+// user's theme, with a sequence segment's colour on the bar
+function renderFocusedTheme() {
+  const themeName = pomodoro ? pomodoroSettings.phaseThemes[pomodoro.phase] : activePreset?.theme;
+  if (!themeName || !renderTheme(themeName)) {
+    renderTheme(userTheme);
+  }
+  
+  const color = getSegmentColor();
+  if (color) {
+    document.documentElement.style.setProperty("--bar-color", color);
+  }
+}
+
+// Put another timer on the bar; the previous one keeps running in the background
+function focusTimer(id: string) {
+  const timer = timers.find((timer) => timer.id === id);
+  if (!timer || timer.id === focusedTimerId) return;
+  
+  // Exit edit mode if active
+  if (state.isEditMode) {
+    exitEditMode(false); // Don't save, just exit
+  }
+  
+  syncFocusedTimer();
+  stopTicking();
+  loadTimer(timer);
+  console.log("Focused timer:", timer.name);
+  
+  timerContainer.classList.remove("timer-complete");
+  renderFocusedTheme();
+  if (isEngineRunning(state.engine)) {
+    startTicking();
+  }
+  publishLaps();
+  
+  updateDisplay();
+  updateBackgroundTicking();
+  saveTimerState();
+  refreshTrayMenu();
+}
+
+// Focus the timer after the current one, wrapping around
+function focusNextTimer() {
+  const index = timers.findIndex((timer) => timer.id === focusedTimerId);
+  focusTimer(timers[(index + 1) % timers.length].id);
+}
+
+// Add a new timer and focus it
+function addTimer() {
+  const timer = createTimerEntry(nextTimerName(timers));
+  timers.push(timer);
+  focusTimer(timer.id);
+  showTimerWindow();
+}
+
+// Remove a timer, recording its session as if it were reset. The last timer stays.
+function removeTimer(id: string) {
+  const index = timers.findIndex((timer) => timer.id === id);
+  if (index === -1 || timers.length <= 1) return;
+  
+  focusTimer(id);
+  pomodoro = null;
+  sequence = null;
+  resetTimer();
+  
+  timers.splice(index, 1);
+  focusTimer(timers[Math.min(index, timers.length - 1)].id);
+}
+
+// Ask for a new name for the focused timer
+function renameTimer() {
+  const timer = getFocusedTimer();
+  const name = prompt("Timer name:", timer.name)?.trim();
+  if (!name) return;
+  
+  timer.name = name;
+  updateDisplay();
+  saveTimerState();
+  refreshTrayMenu();
+}
+
+// Switch between cycling through timers and showing them side by side
+function toggleTimerLayout() {
+  timerLayout = timerLayout === TimerLayout.CYCLE ? TimerLayout.SEGMENTS : TimerLayout.CYCLE;
+  updateDisplay();
+  saveTimerState();
+}
+
+// Run a command-line command on the focused timer and describe the result
+async function runCommandLine(args: string[]): Promise<CliReply> {
+  const request = parseCommandLine(args);
+  if (typeof request === "string") {
+    return { ok: false, output: request };
+  }
+  const { command, json } = request;
+  
+  try {
+    const error = await runCliCommand(command);
+    if (error) return { ok: false, output: error };
+  } catch (error) {
+    console.error("Failed to run command:", error);
+    return { ok: false, output: `Failed to run command: ${error}` };
+  }
+  
+  if (command.action === CliAction.HELP && !json) {
+    return { ok: true, output: CLI_USAGE };
+  }
+  const status = getFocusedStatus();
+  return { ok: true, output: json ? JSON.stringify(status) : formatStatus(status) };
+}
+
+// Status of the timer shown on the bar
+function getFocusedStatus(): TimerStatus {
+  syncFocusedTimer();
+  return getTimerStatus(getFocusedTimer());
+}
+
+// Call the same functions as the tray events. Returns a user-facing error, if any.
+async function runCliCommand(command: CliCommand): Promise<string | null> {
+  switch (command.action) {
+    case CliAction.START:
+      if (command.duration) applyCliDuration(command.duration.kind, command.duration.seconds);
+      startTimer();
+      break;
+    case CliAction.PAUSE:
+      pauseTimer();
+      break;
+    case CliAction.TOGGLE:
+      toggleTimer();
+      break;
+    case CliAction.RESET:
+      resetTimer();
+      break;
+    case CliAction.SET:
+      applyCliDuration(command.duration.kind, command.duration.seconds);
+      break;
+    case CliAction.MODE:
+      if (command.mode) {
+        setMode(command.mode);
+      } else {
+        toggleMode();
+      }
+      break;
+    case CliAction.PRESET: {
+      const presets = await loadPresets();
+      const number = parseInt(command.preset, 10);
+      const index = String(number) === command.preset
+        ? number - 1
+        : presets.findIndex((preset) => preset.label.toLowerCase() === command.preset.toLowerCase());
+      if (index < 0 || index >= presets.length) return `No preset "${command.preset}"`;
+      await applyPreset(index);
+      break;
+    }
+    case CliAction.STATUS:
+    case CliAction.HELP:
+      break;
+  }
+  return null;
+}
+
+// Apply a duration from the command line. A length of time always means a
+// countdown; "+5m" and "-1m" adjust the current time like in the bar's input.
+function applyCliDuration(kind: DurationKind, seconds: number) {
+  if (kind === DurationKind.RELATIVE) {
+    addTime(seconds);
+    return;
+  }
+  
+  endPomodoro();
+  endSequence();
+  clearActivePreset();
+  setTime(seconds, TimerMode.COUNTDOWN);
+  
+  // A countdown to a clock time is only right if it starts now
+  if (kind === DurationKind.UNTIL) {
+    startTimer();
+  }
+}
+
+// Run the enabled hooks for an event in the background and record each result
+function fireHooks(event: HookEvent) {
+  const matching = hooks.filter((hook) => hook.enabled && hook.event === event);
+  if (matching.length === 0) return;
+  
+  const fields = getHookFields(event, getFocusedStatus());
+  matching.forEach(async (hook) => {
+    const result = await runHook(hook, fields);
+    console.log(`Hook ${hook.id} (${event}):`, result);
+    try {
+      await saveHookResult(store, hooks, hook.id, result);
+      await emit("hook-result", { id: hook.id, result });
+    } catch (error) {
+      console.error("Failed to record hook result:", error);
+    }
+  });
+}
+
+// Start or stop the local API server to match its settings
+function applyApiSettings(settings: ApiSettings) {
+  apiSettings = settings;
+  lastApiStatus = "";
+  configureApi(settings).catch((error) => console.error("Failed to configure the local API:", error));
+}
+
+// Send a tick to the API's WebSocket clients when the time shown on the bar
+// or the timer's state changes
+function publishTimerStatus() {
+  if (!apiSettings.enabled) return;
+  
+  const status = getFocusedStatus();
+  const key = JSON.stringify(status);
+  if (key === lastApiStatus) return;
+  
+  lastApiStatus = key;
+  publishApiEvent(ApiEventType.TICK, status);
+}
+
+// Show the focused timer in the tray tooltip and icon, at most once per
+// interval; a change in between is sent when the interval ends
+function publishTrayStatus() {
+  if (trayUpdateTimeout !== null) return;
+  
+  const wait = lastTrayUpdate + TRAY_UPDATE_INTERVAL_MS - Date.now();
+  if (wait > 0) {
+    trayUpdateTimeout = window.setTimeout(() => {
+      trayUpdateTimeout = null;
+      publishTrayStatus();
+    }, wait);
+    return;
+  }
+  
+  const status = getTrayStatus(getFocusedStatus(), traySettings);
+  const key = JSON.stringify(status);
+  if (key === lastTrayStatus) return;
+  
+  lastTrayStatus = key;
+  lastTrayUpdate = Date.now();
+  invoke("update_tray_status", { status })
+    .catch((error) => console.error("Failed to update tray status:", error));
+}
+
+function publishApiEvent(type: ApiEventType, status: TimerStatus) {
+  if (!apiSettings.enabled) return;
+  
+  emit("api-event", { type, status })
+    .catch((error) => console.error("Failed to publish API event:", error));
+}
+
+// Watch running background timers so they finish on time
+function updateBackgroundTicking() {
+  const running = timers.some((timer) => timer.id !== focusedTimerId && isEngineRunning(timer.engine));
+  
+  if (running && backgroundIntervalId === null) {
+    backgroundIntervalId = window.setInterval(backgroundTick, TICK_INTERVAL_MS);
+  } else if (!running && backgroundIntervalId !== null) {
+    clearInterval(backgroundIntervalId);
+    backgroundIntervalId = null;
+  }
+}
+
+// Complete finished background timers and keep the segments current
+function backgroundTick() {
+  const background = timers.filter((timer) => timer.id !== focusedTimerId && isEngineRunning(timer.engine));
+  background
+    .filter((timer) => isInOvertime(timer.session))
+    .forEach((timer) => remindOvertime(timer.session!, timer.engine, timer.preset));
+  
+  const finished = background.find((timer) => !isInOvertime(timer.session) && isEngineComplete(timer.engine));
+  
+  if (finished) {
+    // Bring the finished timer onto the bar so it completes like a focused one
+    focusTimer(finished.id);
+    onTimerComplete();
+    showTimerWindow();
+    return;
+  }
+  
+  renderTimerSegments();
+}
+
+// Show every timer side by side in the segments layout
+function renderTimerSegments() {
+  const showSegments = timerLayout === TimerLayout.SEGMENTS && timers.length > 1;
+  timerContainer.classList.toggle("segments-layout", showSegments);
+  if (!showSegments) {
+    timerSegments.innerHTML = "";
+    return;
+  }
+  
+  syncFocusedTimer();
+  
+  // Rebuild only when timers were added or removed
+  if (timerSegments.childElementCount !== timers.length) {
+    timerSegments.innerHTML = "";
+    timers.forEach(() => {
+      const segment = document.createElement("div");
+      segment.className = "timer-segment";
+      segment.innerHTML = `
+        <span class="segment-name"></span>
+        <span class="segment-time"></span>
+        <div class="segment-progress"></div>
+      `;
+      timerSegments.appendChild(segment);
+    });
+  }
+  
+  timers.forEach((timer, index) => {
+    const segment = timerSegments.children[index] as HTMLElement;
+    const overtime = isInOvertime(timer.session);
+    const progress = overtime || !isCountdownMode(timer.engine.mode)
+      ? 1
+      : timer.sequence ? getSequenceProgress(timer.sequence, getElapsedMs(timer.engine), timer.engine.totalMs) : getProgress(timer.engine);
+    
+    segment.classList.toggle("focused", timer.id === focusedTimerId);
+    segment.classList.toggle("running", isEngineRunning(timer.engine));
+    segment.classList.toggle("overtime", overtime);
+    segment.onclick = (e) => {
+      e.stopPropagation();
+      focusTimer(timer.id);
+    };
+    segment.querySelector(".segment-name")!.textContent = timer.name;
+    segment.querySelector(".segment-time")!.textContent = overtime
+      ? formatOvertime(getOvertimeMs(timer.engine))
+      : formatTime(getDisplaySeconds(timer.engine));
+    (segment.querySelector(".segment-progress") as HTMLElement).style.transform = `scaleX(${progress})`;
+  });
+}
+
+// Rebuild the tray menu with the presets, sequences, themes, timers and recent times
+async function refreshTrayMenu(presets?: PresetTime[]) {
+  trayMenuMode = state.engine.mode;
+  try {
+    const items = buildTrayMenu({
+      presets: presets || await loadPresets(),
+      sequences: await loadSequences(),
+      customThemes,
+      theme: userTheme,
+      mode: state.engine.mode,
+      timers,
+      focusedId: focusedTimerId,
+      recentTimes,
+    });
+    await invoke("rebuild_tray_menu", { items });
+    console.log("Tray menu rebuilt");
+  } catch (error) {
+    console.error("Failed to rebuild tray menu:", error);
+  }
+}
+
+// Add a custom time to the tray menu's recent times
+function rememberRecentTime(seconds: number) {
+  recentTimes = addRecentTime(recentTimes, seconds);
+  store.set(RECENT_TIMES_STORE_KEY, recentTimes)
+    .then(() => store.save())
+    .catch((error) => console.error("Failed to save recent times:", error));
+  refreshTrayMenu();
+}
+
 // Show timer window
 async function showTimerWindow() {
   try {
@@ -0,0 +1,47 @@
+// Overtime: an opt-in behaviour where a finished countdown keeps counting
+// past zero, so meetings and talks show how far over they ran. The bar shows
+// "-MM:SS", the history records the overrun and a reminder sounds every few
+// minutes until the timer is reset.
+
+import { ActiveSession } from "./history";
+import { formatTime } from "./duration";
+
+export interface OvertimeSettings {
+  enabled: boolean;
+  reminderMinutes: number; // 0 for no reminders after the first alarm
+}
+
+export const DEFAULT_OVERTIME_SETTINGS: OvertimeSettings = {
+  enabled: false,
+  reminderMinutes: 5,
+};
+
+// Longest gap between reminders, one day
+export const MAX_REMINDER_MINUTES = 24 * 60;
+
+// Merge saved overtime settings over the defaults
+export function resolveOvertimeSettings(saved?: Partial<OvertimeSettings>): OvertimeSettings {
+  const minutes = saved?.reminderMinutes;
+  return {
+    enabled: typeof saved?.enabled === "boolean" ? saved.enabled : DEFAULT_OVERTIME_SETTINGS.enabled,
+    reminderMinutes: typeof minutes === "number" && minutes >= 0
+      ? Math.min(MAX_REMINDER_MINUTES, Math.round(minutes))
+      : DEFAULT_OVERTIME_SETTINGS.reminderMinutes,
+  };
+}
+
+// Alarms due after this much overtime: 1 at zero, plus one per reminder interval
+export function getDueAlarms(overtimeMs: number, settings: OvertimeSettings): number {
+  if (settings.reminderMinutes <= 0) return 1;
+  return 1 + Math.floor(overtimeMs / (settings.reminderMinutes * 60 * 1000));
+}
+
+// A countdown is in overtime once its session has sounded the first alarm
+export function isInOvertime(session: ActiveSession | null): boolean {
+  return session?.overtimeAlarms !== undefined;
+}
+
+// "-MM:SS" (or "-HH:MM:SS") past zero
+export function formatOvertime(overtimeMs: number): string {
+  return `-${formatTime(Math.floor(overtimeMs / 1000))}`;
+}
@@ -0,0 +1,165 @@
+// Window placement: which monitor the bar opens on and where. A bar dragged
+// somewhere remembers that spot per monitor; a monitor without a saved spot
+// gets the bar snapped to one of its edges. Positions are in physical pixels.
+
+import type { Monitor } from "@tauri-apps/api/window";
+
+export enum SnapEdge {
+  TOP = "top",
+  BOTTOM = "bottom",
+  LEFT = "left",
+  RIGHT = "right"
+}
+
+export const SNAP_EDGE_LABELS: Record<SnapEdge, string> = {
+  [SnapEdge.TOP]: "Top",
+  [SnapEdge.BOTTOM]: "Bottom",
+  [SnapEdge.LEFT]: "Left",
+  [SnapEdge.RIGHT]: "Right",
+};
+
+export interface PlacementSettings {
+  monitor: string; // monitor name, or "" for the one the bar was last moved to
+  edge: SnapEdge; // edge to snap to on a monitor without a saved position
+}
+
+export const DEFAULT_PLACEMENT_SETTINGS: PlacementSettings = {
+  monitor: "",
+  edge: SnapEdge.BOTTOM,
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// A connected monitor and its bounds on the virtual desktop
+export interface MonitorArea {
+  name: string;
+  position: Point;
+  size: Size;
+}
+
+// Where the user dragged the bar, per monitor name, relative to the
+// monitor's top-left corner so a rearranged desktop does not lose it
+export interface SavedPositions {
+  lastMonitor: string | null;
+  positions: Record<string, Point>;
+}
+
+export const EMPTY_SAVED_POSITIONS: SavedPositions = { lastMonitor: null, positions: {} };
+
+// Merge saved placement settings over the defaults
+export function resolvePlacementSettings(saved?: Partial<PlacementSettings>): PlacementSettings {
+  return {
+    monitor: typeof saved?.monitor === "string" ? saved.monitor : DEFAULT_PLACEMENT_SETTINGS.monitor,
+    edge: Object.values(SnapEdge).includes(saved?.edge as SnapEdge) ? saved!.edge! : DEFAULT_PLACEMENT_SETTINGS.edge,
+  };
+}
+
+// Keep only well-formed positions from the store
+export function restoreSavedPositions(data: unknown): SavedPositions {
+  if (!data || typeof data !== "object") return EMPTY_SAVED_POSITIONS;
+  const saved = data as Partial<SavedPositions>;
+
+  const positions: Record<string, Point> = {};
+  Object.entries(saved.positions && typeof saved.positions === "object" ? saved.positions : {})
+    .forEach(([name, point]) => {
+      if (typeof point?.x === "number" && typeof point.y === "number") positions[name] = { x: point.x, y: point.y };
+    });
+  return {
+    lastMonitor: typeof saved.lastMonitor === "string" ? saved.lastMonitor : null,
+    positions,
+  };
+}
+
+// Monitors without a name are told apart by their order
+export function toMonitorArea(monitor: Monitor, index: number): MonitorArea {
+  return {
+    name: monitor.name || `Monitor ${index + 1}`,
+    position: { x: monitor.position.x, y: monitor.position.y },
+    size: { width: monitor.size.width, height: monitor.size.height },
+  };
+}
+
+// Monitor to open on: the chosen one, else the one last dragged to, else the
+// primary one. A disconnected monitor falls through to the next choice.
+export function pickMonitor(
+  monitors: MonitorArea[],
+  settings: PlacementSettings,
+  saved: SavedPositions,
+  primaryName: string | null,
+): MonitorArea | undefined {
+  const candidates = [settings.monitor || saved.lastMonitor, primaryName];
+  for (const name of candidates) {
+    const monitor = monitors.find((monitor) => monitor.name === name);
+    if (monitor) return monitor;
+  }
+  return monitors[0];
+}
+
+// Monitor containing a point, e.g. the bar's centre after a drag
+export function findMonitorAt(monitors: MonitorArea[], point: Point): MonitorArea | undefined {
+  return monitors.find((monitor) =>
+    point.x >= monitor.position.x && point.x < monitor.position.x + monitor.size.width &&
+    point.y >= monitor.position.y && point.y < monitor.position.y + monitor.size.height);
+}
+
+// Centred along an edge, flush with it
+export function getSnapPosition(monitor: MonitorArea, size: Size, edge: SnapEdge): Point {
+  const { position, size: screen } = monitor;
+  const centreX = position.x + Math.round((screen.width - size.width) / 2);
+  const centreY = position.y + Math.round((screen.height - size.height) / 2);
+
+  switch (edge) {
+    case SnapEdge.TOP:
+      return { x: centreX, y: position.y };
+    case SnapEdge.LEFT:
+      return { x: position.x, y: centreY };
+    case SnapEdge.RIGHT:
+      return { x: position.x + screen.width - size.width, y: centreY };
+    case SnapEdge.BOTTOM:
+    default:
+      return { x: centreX, y: position.y + screen.height - size.height };
+  }
+}
+
+// Keep the whole bar on the monitor, e.g. after its resolution went down
+export function clampToMonitor(point: Point, monitor: MonitorArea, size: Size): Point {
+  const maxX = monitor.position.x + Math.max(0, monitor.size.width - size.width);
+  const maxY = monitor.position.y + Math.max(0, monitor.size.height - size.height);
+  return {
+    x: Math.min(maxX, Math.max(monitor.position.x, point.x)),
+    y: Math.min(maxY, Math.max(monitor.position.y, point.y)),
+  };
+}
+
+// Where the bar goes on a monitor: its saved spot, or snapped to the edge
+export function getWindowPlacement(monitor: MonitorArea, size: Size, settings: PlacementSettings, saved: SavedPositions): Point {
+  const offset = saved.positions[monitor.name];
+  if (!offset) return getSnapPosition(monitor, size, settings.edge);
+
+  return clampToMonitor({ x: monitor.position.x + offset.x, y: monitor.position.y + offset.y }, monitor, size);
+}
+
+// Remember a dragged-to position on its monitor
+export function rememberPosition(saved: SavedPositions, monitor: MonitorArea, point: Point): SavedPositions {
+  return {
+    lastMonitor: monitor.name,
+    positions: {
+      ...saved.positions,
+      [monitor.name]: { x: point.x - monitor.position.x, y: point.y - monitor.position.y },
+    },
+  };
+}
+
+// Forget a monitor's saved position, so the bar snaps to the edge there again
+export function forgetPosition(saved: SavedPositions, monitorName: string): SavedPositions {
+  const { [monitorName]: _forgotten, ...positions } = saved.positions;
+  return { ...saved, positions };
+}
@@ -0,0 +1,114 @@
+// Pomodoro cycle logic: which phase comes next and how long it lasts.
+// The timer bar drives the actual countdown through the timer engine.
+
+export enum PomodoroPhase {
+  WORK = "work",
+  SHORT_BREAK = "short-break",
+  LONG_BREAK = "long-break"
+}
+
+export interface PomodoroSettings {
+  workSeconds: number;
+  shortBreakSeconds: number;
+  longBreakSeconds: number;
+  longBreakInterval: number; // long break after every N work phases
+  autoStart: boolean; // start the next phase automatically
+  phaseThemes: Record<PomodoroPhase, string>; // theme name per phase
+}
+
+export interface PomodoroState {
+  phase: PomodoroPhase;
+  completedWork: number; // work phases finished in this cycle
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workSeconds: 25 * 60,
+  shortBreakSeconds: 5 * 60,
+  longBreakSeconds: 15 * 60,
+  longBreakInterval: 4,
+  autoStart: true,
+  phaseThemes: {
+    [PomodoroPhase.WORK]: "red",
+    [PomodoroPhase.SHORT_BREAK]: "green",
+    [PomodoroPhase.LONG_BREAK]: "blue",
+  },
+};
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  [PomodoroPhase.WORK]: "Work",
+  [PomodoroPhase.SHORT_BREAK]: "Break",
+  [PomodoroPhase.LONG_BREAK]: "Long Break",
+};
+
+// Fill in missing fields from the defaults (older settings have none)
+export function resolvePomodoroSettings(saved?: Partial<PomodoroSettings>): PomodoroSettings {
+  // Drop fields of the wrong type so they fall back to the defaults too
+  const valid = Object.fromEntries(Object.entries(saved || {}).filter(([key, value]) =>
+    key === "phaseThemes" || typeof value === typeof DEFAULT_POMODORO_SETTINGS[key as keyof PomodoroSettings]));
+
+  return {
+    ...DEFAULT_POMODORO_SETTINGS,
+    ...valid,
+    phaseThemes: {
+      ...DEFAULT_POMODORO_SETTINGS.phaseThemes,
+      ...saved?.phaseThemes,
+    },
+  };
+}
+
+// A fresh cycle always opens with a work phase
+export function createPomodoroState(): PomodoroState {
+  return {
+    phase: PomodoroPhase.WORK,
+    completedWork: 0,
+  };
+}
+
+// Phase that follows the current one
+export function nextPomodoroState(state: PomodoroState, settings: PomodoroSettings): PomodoroState {
+  if (state.phase !== PomodoroPhase.WORK) {
+    return { phase: PomodoroPhase.WORK, completedWork: state.completedWork };
+  }
+
+  const completedWork = state.completedWork + 1;
+  const interval = Math.max(1, settings.longBreakInterval);
+  return {
+    phase: completedWork % interval === 0 ? PomodoroPhase.LONG_BREAK : PomodoroPhase.SHORT_BREAK,
+    completedWork,
+  };
+}
+
+export function getPhaseSeconds(phase: PomodoroPhase, settings: PomodoroSettings): number {
+  switch (phase) {
+    case PomodoroPhase.WORK:
+      return settings.workSeconds;
+    case PomodoroPhase.SHORT_BREAK:
+      return settings.shortBreakSeconds;
+    case PomodoroPhase.LONG_BREAK:
+      return settings.longBreakSeconds;
+  }
+}
+
+// Bar label such as "Work 2/4" or "Long Break"
+export function getPhaseLabel(state: PomodoroState, settings: PomodoroSettings): string {
+  const label = PHASE_LABELS[state.phase];
+  if (state.phase !== PomodoroPhase.WORK) return label;
+
+  const interval = Math.max(1, settings.longBreakInterval);
+  return `${label} ${(state.completedWork % interval) + 1}/${interval}`;
+}
+
+// Restore a persisted cycle, or null if the data is unusable
+export function restorePomodoroState(data: unknown): PomodoroState | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<PomodoroState>;
+
+  const validPhase = Object.values(PomodoroPhase).includes(saved.phase as PomodoroPhase);
+  const validCount = typeof saved.completedWork === "number" && saved.completedWork >= 0;
+  if (!validPhase || !validCount) return null;
+
+  return {
+    phase: saved.phase!,
+    completedWork: saved.completedWork!,
+  };
+}
@@ -0,0 +1,33 @@
+// Preset definitions shared by the timer bar and the settings window
+
+import { TimerMode } from "./timer";
+
+export interface PresetTime {
+  seconds: number;
+  label: string; // user-facing name, e.g. "Standup" or "Tea"
+  mode?: TimerMode; // countdown (default) or stopwatch
+  theme?: string; // theme shown while the preset is active; user theme if unset
+  sound?: string; // completion sound id (see sounds.ts); default sound if unset
+}
+
+// Default presets (3 minutes, 5 minutes, 25 minutes)
+export const DEFAULT_PRESETS: PresetTime[] = [
+  { seconds: 180, label: "3 minutes" },
+  { seconds: 300, label: "5 minutes" },
+  { seconds: 1500, label: "25 minutes (Pomodoro)" },
+];
+
+// Modes a preset can start in
+export const PRESET_MODES: Partial<Record<TimerMode, string>> = {
+  [TimerMode.COUNTDOWN]: "Countdown",
+  [TimerMode.STOPWATCH]: "Stopwatch",
+};
+
+// Keep only well-formed presets from saved settings; the defaults if none are
+export function restorePresets(data: unknown): PresetTime[] {
+  if (!Array.isArray(data)) return DEFAULT_PRESETS;
+
+  const presets = data.filter((preset) =>
+    typeof preset?.seconds === "number" && preset.seconds > 0 && typeof preset.label === "string");
+  return presets.length > 0 ? presets : DEFAULT_PRESETS;
+}
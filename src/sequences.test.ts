@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SEQUENCES,
+  MAX_SEQUENCE_REPEAT,
+  createSequenceState,
+  nextSequenceState,
+  getSequenceSeconds,
+  getSequenceProgress,
+  getSegmentLabel,
+  isLastSegment,
+  restoreSequences,
+  restoreSequenceState,
+} from "./sequences";
+
+// 20s Work, 10s Rest, 8 rounds: 240s in all
+const TABATA = DEFAULT_SEQUENCES[0];
+const TALK = DEFAULT_SEQUENCES[1];
+
+describe("nextSequenceState", () => {
+  it("moves through the segments, then the rounds, then ends", () => {
+    const start = createSequenceState(TABATA);
+    const rest = nextSequenceState(start);
+    expect(rest).toEqual({ sequence: TABATA, round: 0, segment: 1 });
+    expect(nextSequenceState(rest!)).toEqual({ sequence: TABATA, round: 1, segment: 0 });
+
+    const last = { sequence: TABATA, round: 7, segment: 1 };
+    expect(nextSequenceState(last)).toBeNull();
+    expect(isLastSegment(last)).toBe(true);
+    expect(isLastSegment(start)).toBe(false);
+  });
+
+  it("labels rounds only when there is more than one", () => {
+    expect(getSegmentLabel({ sequence: TABATA, round: 2, segment: 0 })).toBe("Work 3/8");
+    expect(getSegmentLabel(createSequenceState(TALK))).toBe("Intro");
+  });
+});
+
+describe("getSequenceProgress", () => {
+  it("runs from 1 at the start to 0 after the last segment", () => {
+    expect(getSequenceSeconds(TABATA)).toBe(240);
+    expect(getSequenceProgress(createSequenceState(TABATA), 0)).toBe(1);
+    expect(getSequenceProgress({ sequence: TABATA, round: 0, segment: 1 }, 5_000)).toBeCloseTo(1 - 25 / 240);
+    expect(getSequenceProgress({ sequence: TABATA, round: 7, segment: 1 }, 10_000)).toBe(0);
+  });
+
+  it("counts time added to the current segment", () => {
+    expect(getSequenceProgress(createSequenceState(TABATA), 27_000, 50_000)).toBeCloseTo(0.9);
+  });
+
+  it("does not count past the end of the segment", () => {
+    expect(getSequenceProgress(createSequenceState(TABATA), 60_000)).toBeCloseTo(1 - 20 / 240);
+  });
+});
+
+describe("restoreSequences", () => {
+  it("falls back to the defaults when nothing was saved", () => {
+    expect(restoreSequences(undefined)).toBe(DEFAULT_SEQUENCES);
+  });
+
+  it("drops unusable sequences, segments and fields", () => {
+    const restored = restoreSequences([
+      {
+        id: "s1",
+        name: "Drills",
+        segments: [
+          { label: "Sprint", seconds: 30, color: "red", sound: "bell" },
+          { label: "Walk", seconds: 0 },
+          null,
+          { label: "Jog", seconds: 60, color: "#10b981" },
+        ],
+        repeat: 500,
+      },
+      { id: "s2", name: "Empty", segments: [{ label: 5, seconds: 5 }], repeat: 1 },
+      { id: 3, name: "No id", segments: [], repeat: 1 },
+      "sequence",
+    ]);
+
+    expect(restored).toEqual([{
+      id: "s1",
+      name: "Drills",
+      segments: [
+        { label: "Sprint", seconds: 30, sound: "bell" },
+        { label: "Jog", seconds: 60, color: "#10b981" },
+      ],
+      repeat: MAX_SEQUENCE_REPEAT,
+    }]);
+  });
+});
+
+describe("restoreSequenceState", () => {
+  it("restores a saved run", () => {
+    const state = { sequence: TABATA, round: 3, segment: 1 };
+    expect(restoreSequenceState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+  });
+
+  it("rejects a position outside the sequence", () => {
+    expect(restoreSequenceState(null)).toBeNull();
+    expect(restoreSequenceState({ sequence: TABATA, round: 8, segment: 0 })).toBeNull();
+    expect(restoreSequenceState({ sequence: TABATA, round: 0, segment: 2 })).toBeNull();
+    expect(restoreSequenceState({ sequence: { id: "x" }, round: 0, segment: 0 })).toBeNull();
+  });
+});
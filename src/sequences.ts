@@ -0,0 +1,177 @@
+// Interval sequences: a list of labelled segments, such as "20s Work, 10s
+// Rest" repeated 8 times, or "5m Intro, 15m Demo, 10m Q&A". Like the pomodoro
+// cycle, this only decides which segment comes next; the timer bar runs each
+// segment as a countdown through the timer engine.
+
+import { isHexColor } from "./themes";
+
+export interface SequenceSegment {
+  label: string;
+  seconds: number;
+  color?: string; // bar colour while the segment runs; the theme's if unset
+  sound?: string; // sound at the end of the segment (see sounds.ts); default sound if unset
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  segments: SequenceSegment[];
+  repeat: number; // rounds through all segments
+}
+
+// Position in a running sequence
+export interface SequenceState {
+  sequence: Sequence; // copy taken at the start, so edits apply from the next run
+  round: number; // 0-based
+  segment: number; // index into the segments
+}
+
+export const MAX_SEQUENCE_REPEAT = 99;
+
+export const DEFAULT_SEQUENCES: Sequence[] = [
+  {
+    id: "tabata",
+    name: "Tabata",
+    segments: [
+      { label: "Work", seconds: 20, color: "#ef4444" },
+      { label: "Rest", seconds: 10, color: "#10b981" },
+    ],
+    repeat: 8,
+  },
+  {
+    id: "talk",
+    name: "Talk",
+    segments: [
+      { label: "Intro", seconds: 5 * 60 },
+      { label: "Demo", seconds: 15 * 60 },
+      { label: "Q&A", seconds: 10 * 60 },
+    ],
+    repeat: 1,
+  },
+];
+
+// A fresh run always opens with the first segment of the first round
+export function createSequenceState(sequence: Sequence): SequenceState {
+  return { sequence, round: 0, segment: 0 };
+}
+
+export function getCurrentSegment(state: SequenceState): SequenceSegment {
+  return state.sequence.segments[state.segment];
+}
+
+// Segment that follows the current one, or null after the last round
+export function nextSequenceState(state: SequenceState): SequenceState | null {
+  if (state.segment + 1 < state.sequence.segments.length) {
+    return { ...state, segment: state.segment + 1 };
+  }
+  if (state.round + 1 < state.sequence.repeat) {
+    return { ...state, round: state.round + 1, segment: 0 };
+  }
+  return null;
+}
+
+// Length of one round through every segment
+function getRoundSeconds(sequence: Sequence): number {
+  return sequence.segments.reduce((total, segment) => total + segment.seconds, 0);
+}
+
+// Length of the whole run, all rounds included
+export function getSequenceSeconds(sequence: Sequence): number {
+  return getRoundSeconds(sequence) * sequence.repeat;
+}
+
+// Overall progress from 1 (nothing done) to 0 (last segment done), given the
+// time spent in the current segment and its length, if adjusted while running
+export function getSequenceProgress(
+  state: SequenceState,
+  segmentElapsedMs: number,
+  segmentTotalMs: number = getCurrentSegment(state).seconds * 1000,
+): number {
+  const totalMs = getSequenceSeconds(state.sequence) * 1000 - getCurrentSegment(state).seconds * 1000 + segmentTotalMs;
+  if (totalMs <= 0) return 0;
+
+  const doneSeconds = getRoundSeconds(state.sequence) * state.round
+    + state.sequence.segments.slice(0, state.segment).reduce((total, segment) => total + segment.seconds, 0);
+  const segmentMs = Math.min(segmentElapsedMs, segmentTotalMs);
+  return Math.max(0, 1 - (doneSeconds * 1000 + segmentMs) / totalMs);
+}
+
+// Bar label such as "Work 3/8", or just "Demo" for a single round
+export function getSegmentLabel(state: SequenceState): string {
+  const label = getCurrentSegment(state).label;
+  return state.sequence.repeat > 1 ? `${label} ${state.round + 1}/${state.sequence.repeat}` : label;
+}
+
+// Whether the current segment is the last of the run
+export function isLastSegment(state: SequenceState): boolean {
+  return nextSequenceState(state) === null;
+}
+
+// Check a sequence before saving. Returns a user-facing error, or null if valid.
+export function validateSequence(sequence: Sequence): string | null {
+  if (!sequence.name.trim()) return "Enter a name for the sequence";
+  if (sequence.segments.length === 0) return "Add at least one segment";
+  if (sequence.segments.some((segment) => !segment.label.trim())) return "Every segment needs a label";
+  if (sequence.segments.some((segment) => !(segment.seconds > 0))) return "Every segment needs a duration";
+  if (!Number.isInteger(sequence.repeat) || sequence.repeat < 1 || sequence.repeat > MAX_SEQUENCE_REPEAT) {
+    return `Repeat from 1 to ${MAX_SEQUENCE_REPEAT} times`;
+  }
+  return null;
+}
+
+// Keep only well-formed sequences from saved settings; the defaults if none were saved
+export function restoreSequences(data: unknown): Sequence[] {
+  if (!Array.isArray(data)) return DEFAULT_SEQUENCES;
+
+  return data
+    .map((sequence) => restoreSequence(sequence))
+    .filter((sequence): sequence is Sequence => sequence !== null);
+}
+
+// Restore a persisted run, or null if the data is unusable
+export function restoreSequenceState(data: unknown): SequenceState | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<SequenceState>;
+
+  const sequence = restoreSequence(saved.sequence);
+  if (!sequence) return null;
+
+  const validRound = Number.isInteger(saved.round) && saved.round! >= 0 && saved.round! < sequence.repeat;
+  const validSegment = Number.isInteger(saved.segment) && saved.segment! >= 0 && saved.segment! < sequence.segments.length;
+  if (!validRound || !validSegment) return null;
+
+  return { sequence, round: saved.round!, segment: saved.segment! };
+}
+
+function restoreSequence(data: unknown): Sequence | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<Sequence>;
+  if (typeof saved.id !== "string" || typeof saved.name !== "string" || !Array.isArray(saved.segments)) return null;
+
+  const segments = saved.segments
+    .map((segment) => restoreSegment(segment))
+    .filter((segment): segment is SequenceSegment => segment !== null);
+  if (segments.length === 0) return null;
+
+  const repeat = Number.isInteger(saved.repeat)
+    ? Math.min(MAX_SEQUENCE_REPEAT, Math.max(1, saved.repeat!))
+    : 1;
+  return { id: saved.id, name: saved.name, segments, repeat };
+}
+
+function restoreSegment(data: unknown): SequenceSegment | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<SequenceSegment>;
+  if (typeof saved.label !== "string" || typeof saved.seconds !== "number" || !(saved.seconds > 0)) return null;
+
+  return {
+    label: saved.label,
+    seconds: saved.seconds,
+    ...(isHexColor(saved.color) ? { color: saved.color } : {}),
+    ...(typeof saved.sound === "string" ? { sound: saved.sound } : {}),
+  };
+}
+
+export function createSequenceId(): string {
+  return `q${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+}
@@ -1,39 +1,208 @@
 import { Store } from "@tauri-apps/plugin-store";
-import { getCurrentWindow } from "@tauri-apps/api/window";
-import { emit } from "@tauri-apps/api/event";
-
-interface PresetTime {
-  seconds: number;
-  label: string;
-}
-
-interface Settings {
-  presets: PresetTime[];
-  theme?: string;
-  barColor?: string;
-  backgroundColor?: string;
-  textColor?: string;
-  startPauseKey?: string;
-  resetKey?: string;
-}
+import { getCurrentWindow, availableMonitors } from "@tauri-apps/api/window";
+import { invoke } from "@tauri-apps/api/core";
+import { emit, listen } from "@tauri-apps/api/event";
+import {
+  CustomTheme,
+  GradientStop,
+  OutlineStyle,
+  CUSTOM_THEME_PREFIX,
+  THEME_FONTS,
+  OUTLINE_STYLES,
+  themes,
+  getAllThemes,
+  toTheme,
+  createCustomThemeId,
+  validateCustomTheme,
+  exportThemeFile,
+  importThemeFile,
+  parseGradientStops,
+} from "./themes";
+import { TimerMode } from "./timer";
+import { PresetTime, DEFAULT_PRESETS, PRESET_MODES } from "./presets";
+import {
+  CustomSound,
+  SoundSettings,
+  SoundPlayback,
+  resolveSoundSettings,
+  getSoundOptions,
+  playSound,
+} from "./sounds";
+import { DurationKind, parseDuration } from "./duration";
+import { SETTINGS_STORE_FILE, readSettings, updateSettings } from "./config";
+import { HISTORY_STORE_FILE } from "./history";
+import { Sequence, MAX_SEQUENCE_REPEAT, createSequenceId, validateSequence } from "./sequences";
+import { OvertimeSettings, MAX_REMINDER_MINUTES, resolveOvertimeSettings } from "./overtime";
+import { PlacementSettings, SnapEdge, SNAP_EDGE_LABELS, resolvePlacementSettings, toMonitorArea } from "./placement";
+import { TraySettings, resolveTraySettings } from "./tray";
+import { AdjustSettings, WHEEL_STEPS, resolveAdjustSettings, formatStep } from "./adjust";
+import {
+  BarSettings,
+  BarLayout,
+  LayoutSwitch,
+  BAR_LAYOUT_LABELS,
+  LAYOUT_SWITCH_LABELS,
+  BAR_WIDTH_RANGE,
+  BAR_HEIGHT_RANGE,
+  FONT_SCALE_RANGE,
+  resolveBarSettings,
+  validateInRange,
+} from "./layout";
+import { ImportMode, exportBackup, importBackup, describeImport } from "./backup";
+import {
+  Hook,
+  HookEvent,
+  HookKind,
+  HookResult,
+  HOOK_EVENTS,
+  HOOK_KINDS,
+  HOOK_FIELDS,
+  DEFAULT_HOOK_BODY,
+  createHookId,
+  validateHook,
+  getHookFields,
+  runHook,
+  loadHookResults,
+  saveHookResult,
+} from "./hooks";
+import { createTimerEntry, getTimerStatus } from "./timers";
+import {
+  ApiSettings,
+  MIN_API_PORT,
+  MAX_API_PORT,
+  resolveApiSettings,
+  createApiToken,
+  configureApi,
+} from "./api";
+import {
+  DynamicStop,
+  DynamicThemeSettings,
+  EndEffect,
+  ThresholdUnit,
+  END_EFFECTS,
+  THRESHOLD_UNITS,
+  DEFAULT_DYNAMIC_THEME,
+  MAX_EFFECT_SECONDS,
+  resolveDynamicTheme,
+  resolveDynamicRamp,
+  validateDynamicStop,
+  getDynamicColor,
+} from "./dynamic";
+import { PomodoroSettings, PomodoroPhase, resolvePomodoroSettings, getPhaseSeconds } from "./pomodoro";
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  ShortcutFailure,
+  SHORTCUT_LABELS,
+  resolveShortcuts,
+  keyEventToAccelerator,
+  formatAccelerator,
+  findDuplicateBindings,
+} from "./shortcuts";
 
 let store: Store;
+let historyStore: Store;
 let presets: PresetTime[] = [];
+let sequences: Sequence[] = []; // sequences being edited
+let pomodoroSettings: PomodoroSettings = resolvePomodoroSettings();
+let shortcutBindings: ShortcutBindings = resolveShortcuts();
+let notificationsEnabled = true;
+let overtimeSettings: OvertimeSettings = resolveOvertimeSettings();
+let placementSettings: PlacementSettings = resolvePlacementSettings();
+let barSettings: BarSettings = resolveBarSettings();
+let traySettings: TraySettings = resolveTraySettings();
+let adjustSettings: AdjustSettings = resolveAdjustSettings();
+let soundSettings: SoundSettings = resolveSoundSettings();
+let customThemes: CustomTheme[] = [];
+let apiSettings: ApiSettings = resolveApiSettings();
+
+// Hooks being edited and the last result of each
+let hooks: Hook[] = [];
+let hookResults: Record<string, HookResult> = {};
+
+// Custom theme open in the theme editor; null while making a new one
+let editingThemeId: string | null = null;
+let editorStops: GradientStop[] = [];
+
+// Dynamic theme stops being edited
+let dynamicTheme: DynamicThemeSettings = resolveDynamicTheme();
+let dynamicStops: DynamicStop[] = [];
+
+// Countdown length the dynamic theme preview is drawn for
+const DYNAMIC_PREVIEW_SECONDS = 25 * 60;
+
+// Sound files removed from the list, deleted from disk once saved
+let removedSoundFiles: string[] = [];
+
+// Sound started by the test button, stopped when testing again
+let testPlayback: SoundPlayback | null = null;
+
+// Action whose shortcut is being recorded, if any
+let recordingAction: ShortcutAction | null = null;
+
+// How long to wait for the timer window to confirm shortcut registration
+const SHORTCUT_REPLY_TIMEOUT_MS = 3000;
+
+// Pomodoro form fields keyed by phase
+const POMODORO_DURATION_INPUTS: Record<PomodoroPhase, string> = {
+  [PomodoroPhase.WORK]: "pomodoro-work",
+  [PomodoroPhase.SHORT_BREAK]: "pomodoro-short-break",
+  [PomodoroPhase.LONG_BREAK]: "pomodoro-long-break",
+};
+
+// Theme editor entries that start from a built-in theme
+const BUILT_IN_THEME_PREFIX = "builtin:";
 
-// Default presets (3 minutes, 5 minutes, 25 minutes)
-const DEFAULT_PRESETS: PresetTime[] = [
-  { seconds: 180, label: "3 minutes" },
-  { seconds: 300, label: "5 minutes" },
-  { seconds: 1500, label: "25 minutes (Pomodoro)" },
-];
+// Starting point for a new theme
+const NEW_THEME: Omit<CustomTheme, "id"> = {
+  name: "",
+  stops: [
+    { color: "#1e3c72", position: 0 },
+    { color: "#7e22ce", position: 100 },
+  ],
+  backgroundColor: "transparent",
+  textColor: "#ffffff",
+  fontFamily: "",
+  outline: OutlineStyle.SHADOW,
+};
+
+const POMODORO_THEME_SELECTS: Record<PomodoroPhase, string> = {
+  [PomodoroPhase.WORK]: "pomodoro-theme-work",
+  [PomodoroPhase.SHORT_BREAK]: "pomodoro-theme-short-break",
+  [PomodoroPhase.LONG_BREAK]: "pomodoro-theme-long-break",
+};
 
 // Initialize
 async function init() {
   try {
-    store = await Store.load("settings.json");
+    store = await Store.load(SETTINGS_STORE_FILE);
+    historyStore = await Store.load(HISTORY_STORE_FILE);
     await loadPresets();
     renderPresets();
+    renderPomodoroSettings();
+    renderSequences();
+    renderNotificationSettings();
+    renderOvertimeSettings();
+    renderAdjustSettings();
+    renderBarSettings();
+    renderPlacementSettings();
+    renderHooks();
+    renderApiSettings();
+    renderSoundSettings();
+    renderThemeEditor();
+    renderDynamicTheme();
+    renderShortcuts();
     setupEventListeners();
+
+    // A backup was imported here or from the tray: show what is stored now
+    await listen("settings-imported", reloadSettings);
+
+    // A hook ran in the timer window
+    await listen("hook-result", (event: any) => {
+      const { id, result } = event.payload as { id: string; result: HookResult };
+      hookResults[id] = result;
+      renderHookResult(id);
+    });
   } catch (error) {
     console.error("Failed to initialize settings:", error);
   }
@@ -42,8 +211,26 @@ async function init() {
 // Load presets from store
 async function loadPresets() {
   try {
-    const settings = await store.get<Settings>("settings");
-    presets = settings?.presets || DEFAULT_PRESETS;
+    const settings = await readSettings(store);
+    presets = settings.presets;
+    sequences = settings.sequences.map((sequence) => ({
+      ...sequence,
+      segments: sequence.segments.map((segment) => ({ ...segment })),
+    }));
+    pomodoroSettings = settings.pomodoro;
+    shortcutBindings = settings.shortcuts;
+    notificationsEnabled = settings.notifications;
+    overtimeSettings = settings.overtime;
+    placementSettings = settings.placement;
+    barSettings = settings.bar;
+    traySettings = settings.tray;
+    adjustSettings = settings.adjust;
+    soundSettings = settings.sounds;
+    customThemes = settings.customThemes;
+    dynamicTheme = settings.dynamicTheme;
+    apiSettings = settings.api;
+    hooks = settings.hooks.map((hook) => ({ ...hook }));
+    hookResults = await loadHookResults(store);
     console.log("Loaded presets:", presets);
   } catch (error) {
     console.error("Failed to load presets:", error);
@@ -73,76 +260,1330 @@ function renderPresets() {
   });
 }
 
+// Fill the pomodoro form from the loaded settings
+function renderPomodoroSettings() {
+  Object.values(PomodoroPhase).forEach((phase) => {
+    const input = document.getElementById(POMODORO_DURATION_INPUTS[phase]) as HTMLInputElement | null;
+    if (input) {
+      input.value = formatSecondsToHHMMSS(getPhaseSeconds(phase, pomodoroSettings));
+    }
+
+    const select = document.getElementById(POMODORO_THEME_SELECTS[phase]) as HTMLSelectElement | null;
+    if (select) {
+      fillThemeSelect(select, pomodoroSettings.phaseThemes[phase] || "");
+    }
+  });
+
+  const interval = document.getElementById("pomodoro-interval") as HTMLInputElement | null;
+  if (interval) interval.value = pomodoroSettings.longBreakInterval.toString();
+
+  const autoStart = document.getElementById("pomodoro-autostart") as HTMLInputElement | null;
+  if (autoStart) autoStart.checked = pomodoroSettings.autoStart;
+}
+
+// Render one card per sequence, with a row per segment
+function renderSequences() {
+  const container = document.getElementById("sequences-list");
+  if (!container) return;
+
+  container.innerHTML = "";
+  sequences.forEach((sequence, index) => {
+    const item = document.createElement("div");
+    item.className = "sequence-item";
+    item.innerHTML = `
+      <div class="sequence-controls">
+        <input type="text" class="preset-input sequence-name" placeholder="Sequence name" maxlength="40">
+        <label class="sequence-repeat" title="Rounds through all segments">
+          ×
+          <input type="number" class="preset-input" min="1" max="${MAX_SEQUENCE_REPEAT}">
+        </label>
+        <button class="row-remove" title="Remove this sequence">✕</button>
+      </div>
+      <div class="sequence-segments"></div>
+      <button class="secondary-btn segment-add">+ Add Segment</button>
+      <span class="input-error"></span>
+    `;
+
+    const name = item.querySelector(".sequence-name") as HTMLInputElement;
+    const repeat = item.querySelector(".sequence-repeat input") as HTMLInputElement;
+    name.value = sequence.name;
+    repeat.value = sequence.repeat.toString();
+
+    name.addEventListener("input", () => sequences[index].name = name.value);
+    repeat.addEventListener("input", () => sequences[index].repeat = repeat.value === "" ? NaN : Number(repeat.value));
+    item.querySelector(".sequence-controls .row-remove")!.addEventListener("click", () => {
+      sequences.splice(index, 1);
+      renderSequences();
+    });
+    item.querySelector(".segment-add")!.addEventListener("click", () => {
+      const last = sequence.segments[sequence.segments.length - 1];
+      sequence.segments.push(last ? { ...last } : { label: "Work", seconds: 60 });
+      renderSequences();
+    });
+
+    renderSequenceSegments(item, sequence);
+    container.appendChild(item);
+  });
+}
+
+function renderSequenceSegments(item: HTMLElement, sequence: Sequence) {
+  const container = item.querySelector(".sequence-segments")!;
+  sequence.segments.forEach((segment, index) => {
+    const row = document.createElement("div");
+    row.className = "segment-row";
+    row.innerHTML = `
+      <input type="text" class="preset-input segment-label" placeholder="Label" maxlength="30">
+      <input type="text" class="preset-input segment-duration" placeholder="20s, 5m" maxlength="20">
+      <input type="checkbox" class="segment-color-enabled" title="Give this segment its own bar colour">
+      <input type="color" class="color-input segment-color" title="Bar colour">
+      <select class="preset-select segment-sound" title="Sound at the end of the segment"></select>
+      <button class="row-remove" title="Remove this segment">✕</button>
+    `;
+
+    const label = row.querySelector(".segment-label") as HTMLInputElement;
+    const duration = row.querySelector(".segment-duration") as HTMLInputElement;
+    const colorEnabled = row.querySelector(".segment-color-enabled") as HTMLInputElement;
+    const color = row.querySelector(".segment-color") as HTMLInputElement;
+    const sound = row.querySelector(".segment-sound") as HTMLSelectElement;
+    const remove = row.querySelector(".row-remove") as HTMLButtonElement;
+
+    label.value = segment.label;
+    duration.value = formatSecondsToHHMMSS(segment.seconds);
+    colorEnabled.checked = segment.color !== undefined;
+    color.value = segment.color || "#667eea";
+    color.disabled = !colorEnabled.checked;
+    fillSoundSelect(sound, true, segment.sound || "");
+    remove.disabled = sequence.segments.length === 1;
+
+    label.addEventListener("input", () => segment.label = label.value);
+    duration.addEventListener("blur", () => {
+      const seconds = validateInput(duration);
+      if (seconds !== null) {
+        segment.seconds = seconds;
+        duration.value = formatSecondsToHHMMSS(seconds);
+      }
+    });
+    const updateColor = () => {
+      color.disabled = !colorEnabled.checked;
+      if (colorEnabled.checked) segment.color = color.value;
+      else delete segment.color;
+    };
+    colorEnabled.addEventListener("change", updateColor);
+    color.addEventListener("input", updateColor);
+    sound.addEventListener("change", () => {
+      if (sound.value) segment.sound = sound.value;
+      else delete segment.sound;
+    });
+    remove.addEventListener("click", () => {
+      sequence.segments.splice(index, 1);
+      renderSequences();
+    });
+
+    container.appendChild(row);
+  });
+}
+
+function addSequence() {
+  sequences.push({
+    id: createSequenceId(),
+    name: "",
+    segments: [{ label: "Work", seconds: 60 }],
+    repeat: 1,
+  });
+  renderSequences();
+
+  const items = document.querySelectorAll("#sequences-list .sequence-name");
+  (items[items.length - 1] as HTMLInputElement | undefined)?.focus();
+}
+
+// Check every sequence, flagging the invalid ones. Returns false if any is invalid.
+function validateSequences(): boolean {
+  let valid = true;
+  document.querySelectorAll("#sequences-list .sequence-item").forEach((element, index) => {
+    const item = element as HTMLElement;
+    const durationsValid = Array.from(item.querySelectorAll(".segment-duration"))
+      .map((input) => validateInput(input as HTMLInputElement))
+      .every((seconds) => seconds !== null);
+    const error = durationsValid ? validateSequence(sequences[index]) : "Fix the highlighted durations";
+
+    const message = item.querySelector(":scope > .input-error");
+    if (message) message.textContent = error || "";
+    if (error) valid = false;
+  });
+  return valid;
+}
+
+function renderNotificationSettings() {
+  const checkbox = document.getElementById("notifications-enabled") as HTMLInputElement | null;
+  if (checkbox) checkbox.checked = notificationsEnabled;
+  const progressIcon = document.getElementById("tray-progress-icon") as HTMLInputElement | null;
+  if (progressIcon) progressIcon.checked = traySettings.progressIcon;
+}
+
+function renderOvertimeSettings() {
+  (document.getElementById("overtime-enabled") as HTMLInputElement).checked = overtimeSettings.enabled;
+  (document.getElementById("overtime-reminder") as HTMLInputElement).value = overtimeSettings.reminderMinutes.toString();
+}
+
+// Read the overtime form, flagging an invalid reminder interval
+function readOvertimeSettings(): OvertimeSettings | null {
+  const reminderInput = document.getElementById("overtime-reminder") as HTMLInputElement;
+  const minutes = Number(reminderInput.value);
+  const valid = reminderInput.value !== "" && Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_REMINDER_MINUTES;
+  reminderInput.classList.toggle("error", !valid);
+  const message = reminderInput.closest(".field")?.querySelector(".input-error");
+  if (message) message.textContent = valid ? "" : `Enter whole minutes from 0 to ${MAX_REMINDER_MINUTES}`;
+  if (!valid) return null;
+
+  return {
+    enabled: (document.getElementById("overtime-enabled") as HTMLInputElement).checked,
+    reminderMinutes: minutes,
+  };
+}
+
+function renderAdjustSettings() {
+  (document.getElementById("adjust-wheel") as HTMLInputElement).checked = adjustSettings.wheel;
+  const stepSelect = document.getElementById("adjust-wheel-step") as HTMLSelectElement;
+  stepSelect.innerHTML = "";
+  WHEEL_STEPS.forEach((seconds) => stepSelect.add(new Option(formatStep(seconds), seconds.toString())));
+  stepSelect.value = adjustSettings.wheelStepSeconds.toString();
+}
+
+function readAdjustSettings(): AdjustSettings {
+  return {
+    wheel: (document.getElementById("adjust-wheel") as HTMLInputElement).checked,
+    wheelStepSeconds: Number((document.getElementById("adjust-wheel-step") as HTMLSelectElement).value),
+  };
+}
+
+function renderBarSettings() {
+  (document.getElementById("bar-width") as HTMLInputElement).value = barSettings.width.toString();
+  (document.getElementById("bar-height") as HTMLInputElement).value = barSettings.height.toString();
+  (document.getElementById("bar-font-scale") as HTMLInputElement).value = barSettings.fontScale.toString();
+
+  const fillSelect = <T extends string>(id: string, labels: Record<T, string>, value: T) => {
+    const select = document.getElementById(id) as HTMLSelectElement;
+    select.innerHTML = "";
+    Object.entries(labels).forEach(([key, label]) => select.add(new Option(label as string, key)));
+    select.value = value;
+  };
+  fillSelect("bar-layout", BAR_LAYOUT_LABELS, barSettings.layout);
+  fillSelect("bar-alternate-layout", BAR_LAYOUT_LABELS, barSettings.alternateLayout);
+  fillSelect("bar-switch-on", LAYOUT_SWITCH_LABELS, barSettings.switchOn);
+}
+
+// Read the bar form, flagging sizes out of range
+function readBarSettings(): BarSettings | null {
+  const readNumber = (id: string, range: { min: number; max: number }): number | null => {
+    const input = document.getElementById(id) as HTMLInputElement;
+    const value = Number(input.value);
+    const error = validateInRange(value, range);
+    input.classList.toggle("error", error !== null);
+    const message = input.closest(".field")?.querySelector(".input-error");
+    if (message) message.textContent = error ?? "";
+    return error === null ? value : null;
+  };
+
+  const width = readNumber("bar-width", BAR_WIDTH_RANGE);
+  const height = readNumber("bar-height", BAR_HEIGHT_RANGE);
+  const fontScale = readNumber("bar-font-scale", FONT_SCALE_RANGE);
+  if (width === null || height === null || fontScale === null) return null;
+
+  return {
+    width,
+    height,
+    fontScale,
+    layout: (document.getElementById("bar-layout") as HTMLSelectElement).value as BarLayout,
+    alternateLayout: (document.getElementById("bar-alternate-layout") as HTMLSelectElement).value as BarLayout,
+    switchOn: (document.getElementById("bar-switch-on") as HTMLSelectElement).value as LayoutSwitch,
+  };
+}
+
+// Fill the placement form with the connected monitors. A chosen monitor that
+// is disconnected stays selectable so saving does not lose it.
+async function renderPlacementSettings() {
+  const monitorSelect = document.getElementById("placement-monitor") as HTMLSelectElement;
+  const edgeSelect = document.getElementById("placement-edge") as HTMLSelectElement;
+
+  let names: string[] = [];
+  try {
+    names = (await availableMonitors()).map(toMonitorArea).map((monitor) => monitor.name);
+  } catch (error) {
+    console.error("Failed to list monitors:", error);
+  }
+
+  monitorSelect.innerHTML = "";
+  monitorSelect.add(new Option("Where I last moved it", ""));
+  names.forEach((name) => monitorSelect.add(new Option(name, name)));
+  if (placementSettings.monitor && !names.includes(placementSettings.monitor)) {
+    monitorSelect.add(new Option(`${placementSettings.monitor} (disconnected)`, placementSettings.monitor));
+  }
+  monitorSelect.value = placementSettings.monitor;
+
+  edgeSelect.innerHTML = "";
+  Object.values(SnapEdge).forEach((edge) => edgeSelect.add(new Option(SNAP_EDGE_LABELS[edge], edge)));
+  edgeSelect.value = placementSettings.edge;
+}
+
+function readPlacementSettings(): PlacementSettings {
+  return resolvePlacementSettings({
+    monitor: (document.getElementById("placement-monitor") as HTMLSelectElement).value,
+    edge: (document.getElementById("placement-edge") as HTMLSelectElement).value as SnapEdge,
+  });
+}
+
+// Render one row per hook
+function renderHooks() {
+  const container = document.getElementById("hooks-list");
+  if (!container) return;
+
+  const hint = document.getElementById("hook-fields-hint");
+  if (hint) {
+    hint.textContent = `Commands run in the system shell; URLs receive a JSON POST. Use ${HOOK_FIELDS.map((field) => `{{${field}}}`).join(", ")} in the command, URL or body. In a command they read the TIMEBAR_* environment variables, so keep them out of single quotes.`;
+  }
+
+  container.innerHTML = "";
+  hooks.forEach((hook, index) => {
+    const row = document.createElement("div");
+    row.className = "hook-row";
+    row.dataset.hookId = hook.id;
+    row.innerHTML = `
+      <div class="hook-controls">
+        <input type="checkbox" class="hook-enabled" title="Run this hook">
+        <select class="preset-select hook-event" title="When to run"></select>
+        <select class="preset-select hook-kind" title="What to run"></select>
+        <button class="secondary-btn hook-test" title="Run this hook now with sample data">Test</button>
+        <button class="row-remove" title="Remove this hook">✕</button>
+      </div>
+      <input type="text" class="preset-input hook-target">
+      <textarea class="preset-input hook-body" title="JSON body"></textarea>
+      <span class="input-error"></span>
+      <div class="hook-result"></div>
+    `;
+
+    const enabled = row.querySelector(".hook-enabled") as HTMLInputElement;
+    const event = row.querySelector(".hook-event") as HTMLSelectElement;
+    const kind = row.querySelector(".hook-kind") as HTMLSelectElement;
+    const target = row.querySelector(".hook-target") as HTMLInputElement;
+    const body = row.querySelector(".hook-body") as HTMLTextAreaElement;
+
+    Object.entries(HOOK_EVENTS).forEach(([key, label]) => event.add(new Option(label, key)));
+    Object.entries(HOOK_KINDS).forEach(([key, label]) => kind.add(new Option(label, key)));
+    enabled.checked = hook.enabled;
+    event.value = hook.event;
+    kind.value = hook.kind;
+    target.value = hook.target;
+    body.value = hook.body;
+    updateHookKind(row, hook.kind);
+
+    enabled.addEventListener("change", () => hooks[index].enabled = enabled.checked);
+    event.addEventListener("change", () => hooks[index].event = event.value as HookEvent);
+    kind.addEventListener("change", () => {
+      hooks[index].kind = kind.value as HookKind;
+      updateHookKind(row, hooks[index].kind);
+    });
+    target.addEventListener("input", () => hooks[index].target = target.value);
+    body.addEventListener("input", () => hooks[index].body = body.value);
+    row.querySelector(".hook-test")!.addEventListener("click", () => testHook(index));
+    row.querySelector(".row-remove")!.addEventListener("click", () => {
+      hooks.splice(index, 1);
+      renderHooks();
+    });
+
+    container.appendChild(row);
+    renderHookResult(hook.id);
+  });
+}
+
+// Webhooks have a body; commands do not
+function updateHookKind(row: HTMLElement, kind: HookKind) {
+  const target = row.querySelector(".hook-target") as HTMLInputElement;
+  target.placeholder = kind === HookKind.COMMAND
+    ? "e.g. notify-send \"{{name}} finished\""
+    : "https://example.com/webhook";
+  (row.querySelector(".hook-body") as HTMLElement).style.display = kind === HookKind.WEBHOOK ? "" : "none";
+}
+
+function renderHookResult(id: string) {
+  const element = document.querySelector(`.hook-row[data-hook-id="${id}"] .hook-result`);
+  if (!element) return;
+
+  const result = hookResults[id];
+  element.textContent = result
+    ? `Last run ${new Date(result.at).toLocaleString()}: ${result.ok ? "✓" : "✕"} ${result.message}`
+    : "Not run yet";
+  element.classList.toggle("failed", result?.ok === false);
+}
+
+function addHook() {
+  hooks.push({
+    id: createHookId(),
+    event: HookEvent.COMPLETE,
+    kind: HookKind.COMMAND,
+    target: "",
+    body: DEFAULT_HOOK_BODY,
+    enabled: true,
+  });
+  renderHooks();
+}
+
+// Check every hook, flagging the invalid ones. Returns false if any is invalid.
+function validateHooks(): boolean {
+  let valid = true;
+  hooks.forEach((hook) => {
+    const error = validateHook(hook);
+    const row = document.querySelector(`.hook-row[data-hook-id="${hook.id}"]`);
+    row?.querySelector(".hook-target")?.classList.toggle("error", error !== null);
+    const message = row?.querySelector(".input-error");
+    if (message) message.textContent = error || "";
+    if (error) valid = false;
+  });
+  return valid;
+}
+
+// Run a hook now with a sample 25-minute countdown
+async function testHook(index: number) {
+  const hook = hooks[index];
+  const error = validateHook(hook);
+  if (error) {
+    validateHooks();
+    return;
+  }
+
+  const sample = createTimerEntry("Timer 1", TimerMode.COUNTDOWN, 25 * 60 * 1000);
+  const result = await runHook(hook, getHookFields(hook.event, getTimerStatus(sample)));
+  hookResults[hook.id] = result;
+  renderHookResult(hook.id);
+
+  try {
+    await saveHookResult(store, hooks, hook.id, result);
+  } catch (error) {
+    console.error("Failed to record hook result:", error);
+  }
+}
+
+// Fill the local API form from the loaded settings
+function renderApiSettings() {
+  (document.getElementById("api-enabled") as HTMLInputElement).checked = apiSettings.enabled;
+  (document.getElementById("api-port") as HTMLInputElement).value = apiSettings.port.toString();
+  (document.getElementById("api-token") as HTMLInputElement).value = apiSettings.token;
+}
+
+// Read the local API form. Returns null if the port is invalid. Enabling the
+// API for the first time creates its token.
+function readApiSettings(): ApiSettings | null {
+  const portInput = document.getElementById("api-port") as HTMLInputElement;
+  const port = Number(portInput.value);
+  const valid = Number.isInteger(port) && port >= MIN_API_PORT && port <= MAX_API_PORT;
+  const error = valid ? "" : `Enter a port from ${MIN_API_PORT} to ${MAX_API_PORT}`;
+  portInput.classList.toggle("error", !valid);
+  const message = portInput.closest(".field")?.querySelector(".input-error");
+  if (message) message.textContent = error;
+  if (!valid) return null;
+
+  const enabled = (document.getElementById("api-enabled") as HTMLInputElement).checked;
+  const tokenInput = document.getElementById("api-token") as HTMLInputElement;
+  if (enabled && !tokenInput.value) {
+    tokenInput.value = createApiToken();
+  }
+  return { enabled, port, token: tokenInput.value };
+}
+
+// Replace the token; clients using the old one are refused once saved
+function renewApiToken() {
+  if (apiSettings.token && !confirm("Apps using the current token will stop working once you save. Create a new token?")) {
+    return;
+  }
+  (document.getElementById("api-token") as HTMLInputElement).value = createApiToken();
+}
+
+async function copyApiToken() {
+  const token = (document.getElementById("api-token") as HTMLInputElement).value;
+  if (!token) return;
+
+  try {
+    await navigator.clipboard.writeText(token);
+  } catch (error) {
+    console.error("Failed to copy token:", error);
+  }
+}
+
+// Fill the sound form from the loaded settings
+function renderSoundSettings() {
+  const volume = document.getElementById("sound-volume") as HTMLInputElement | null;
+  if (volume) {
+    volume.value = Math.round(soundSettings.volume * 100).toString();
+    updateVolumeLabel();
+  }
+
+  const repeat = document.getElementById("sound-repeat") as HTMLInputElement | null;
+  if (repeat) repeat.checked = soundSettings.repeatUntilDismissed;
+
+  renderCustomSounds();
+}
+
+// Render the sound file list and refresh every sound select to match it
+function renderCustomSounds() {
+  const container = document.getElementById("custom-sounds-list");
+  if (container) {
+    container.innerHTML = "";
+    soundSettings.customSounds.forEach((sound) => {
+      const row = document.createElement("div");
+      row.className = "custom-sound-row";
+      row.innerHTML = `
+        <span class="custom-sound-name"></span>
+        <button class="row-remove" title="Remove this sound">✕</button>
+      `;
+      row.querySelector(".custom-sound-name")!.textContent = `🎵 ${sound.name}`;
+      row.querySelector(".row-remove")!.addEventListener("click", () => removeCustomSound(sound));
+      container.appendChild(row);
+    });
+  }
+
+  const defaultSelect = document.getElementById("sound-default") as HTMLSelectElement | null;
+  if (defaultSelect) {
+    fillSoundSelect(defaultSelect, false, defaultSelect.value || soundSettings.defaultSound);
+  }
+  document.querySelectorAll("#presets-list .preset-sound, #sequences-list .segment-sound").forEach((select) => {
+    const soundSelect = select as HTMLSelectElement;
+    fillSoundSelect(soundSelect, true, soundSelect.value);
+  });
+}
+
+// Fill a sound select, keeping the selection when it is still available
+function fillSoundSelect(select: HTMLSelectElement, includeDefault: boolean, value: string) {
+  select.innerHTML = "";
+  if (includeDefault) {
+    select.add(new Option("Default sound", ""));
+  }
+  Object.entries(getSoundOptions(soundSettings)).forEach(([key, label]) => select.add(new Option(label, key)));
+  select.value = value;
+  if (select.selectedIndex === -1) {
+    select.selectedIndex = 0;
+  }
+}
+
+function updateVolumeLabel() {
+  const volume = document.getElementById("sound-volume") as HTMLInputElement;
+  const label = document.getElementById("sound-volume-value");
+  if (label) label.textContent = `${volume.value}%`;
+}
+
+// Pick an audio file; the backend copies it into the app's sounds folder
+async function addCustomSound() {
+  try {
+    const sound = await invoke<CustomSound | null>("import_sound_file");
+    if (!sound) return;
+
+    // Importing a file with the same name replaces the earlier copy
+    soundSettings.customSounds = [
+      ...soundSettings.customSounds.filter((existing) => existing.file !== sound.file),
+      sound,
+    ];
+    removedSoundFiles = removedSoundFiles.filter((file) => file !== sound.file);
+    renderCustomSounds();
+  } catch (error) {
+    console.error("Failed to add sound file:", error);
+    alert(`Failed to add sound file: ${error}`);
+  }
+}
+
+function removeCustomSound(sound: CustomSound) {
+  soundSettings.customSounds = soundSettings.customSounds.filter((existing) => existing.file !== sound.file);
+  removedSoundFiles.push(sound.file);
+  renderCustomSounds();
+}
+
+// Play the selected default sound at the chosen volume
+async function testSound() {
+  testPlayback?.stop();
+  const sound = readSoundSettings();
+  testPlayback = await playSound(sound.defaultSound, sound.volume);
+}
+
+function readSoundSettings(): SoundSettings {
+  return {
+    defaultSound: (document.getElementById("sound-default") as HTMLSelectElement).value,
+    volume: parseInt((document.getElementById("sound-volume") as HTMLInputElement).value, 10) / 100,
+    repeatUntilDismissed: (document.getElementById("sound-repeat") as HTMLInputElement).checked,
+    customSounds: soundSettings.customSounds,
+  };
+}
+
+// Delete sound files that were removed from the list and are no longer used
+async function deleteRemovedSoundFiles() {
+  const inUse = new Set(soundSettings.customSounds.map((sound) => sound.file));
+  for (const file of removedSoundFiles.filter((file) => !inUse.has(file))) {
+    try {
+      await invoke("remove_sound_file", { file });
+    } catch (error) {
+      console.error("Failed to delete sound file:", file, error);
+    }
+  }
+  removedSoundFiles = [];
+}
+
+// Fill a theme select with "Current theme", the built-ins and the custom
+// themes, keeping the selection when it is still available
+function fillThemeSelect(select: HTMLSelectElement, value: string) {
+  select.innerHTML = "";
+  select.add(new Option("Current theme", ""));
+  Object.entries(getAllThemes(customThemes)).forEach(([key, theme]) => select.add(new Option(theme.name, key)));
+  select.value = value;
+  if (select.selectedIndex === -1) {
+    select.selectedIndex = 0;
+  }
+}
+
+// Refresh the preset and pomodoro theme selects after custom themes change
+function refreshThemeSelects() {
+  document.querySelectorAll("#presets-list .preset-theme").forEach((element) => {
+    const select = element as HTMLSelectElement;
+    fillThemeSelect(select, select.value);
+  });
+  Object.values(POMODORO_THEME_SELECTS).forEach((id) => {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    if (select) fillThemeSelect(select, select.value);
+  });
+}
+
+// Fill the theme editor's fixed options and open a new theme
+function renderThemeEditor() {
+  const font = document.getElementById("theme-font") as HTMLSelectElement | null;
+  const outline = document.getElementById("theme-outline") as HTMLSelectElement | null;
+  if (!font || !outline) return;
+
+  Object.entries(THEME_FONTS).forEach(([stack, label]) => font.add(new Option(label, stack)));
+  Object.entries(OUTLINE_STYLES).forEach(([style, label]) => outline.add(new Option(label, style)));
+
+  fillThemeEditorSelect("");
+  openThemeInEditor("");
+}
+
+// List the custom themes to edit and the built-ins to start from
+function fillThemeEditorSelect(value: string) {
+  const select = document.getElementById("theme-editor-select") as HTMLSelectElement | null;
+  if (!select) return;
+
+  select.innerHTML = "";
+  select.add(new Option("New theme", ""));
+
+  if (customThemes.length > 0) {
+    const group = document.createElement("optgroup");
+    group.label = "My themes";
+    customThemes.forEach((theme) => group.appendChild(new Option(theme.name, theme.id)));
+    select.appendChild(group);
+  }
+
+  const builtIns = document.createElement("optgroup");
+  builtIns.label = "Start from";
+  Object.keys(themes)
+    .filter((key) => builtInToCustomTheme(key))
+    .forEach((key) => builtIns.appendChild(new Option(themes[key].name, BUILT_IN_THEME_PREFIX + key)));
+  select.appendChild(builtIns);
+
+  select.value = value;
+}
+
+// Copy of a built-in theme in editor form, or null when its bar is not a
+// plain gradient (the dynamic and transparent themes)
+function builtInToCustomTheme(key: string): Omit<CustomTheme, "id"> | null {
+  const theme = themes[key];
+  const stops = parseGradientStops(theme.barColor);
+  if (stops.length === 0) return null;
+
+  return {
+    ...NEW_THEME,
+    name: `${theme.name} Copy`,
+    stops,
+    backgroundColor: theme.backgroundColor,
+    textColor: theme.textColor,
+  };
+}
+
+// Load a theme picked in the editor select into the form
+function openThemeInEditor(value: string) {
+  const custom = customThemes.find((theme) => theme.id === value);
+  const builtIn = value.startsWith(BUILT_IN_THEME_PREFIX)
+    ? builtInToCustomTheme(value.slice(BUILT_IN_THEME_PREFIX.length))
+    : null;
+  const theme = custom || builtIn || NEW_THEME;
+
+  editingThemeId = custom ? custom.id : null;
+  editorStops = theme.stops.map((stop) => ({ ...stop }));
+
+  (document.getElementById("theme-name") as HTMLInputElement).value = theme.name;
+  (document.getElementById("theme-font") as HTMLSelectElement).value = theme.fontFamily;
+  (document.getElementById("theme-text-color") as HTMLInputElement).value = toColorInputValue(theme.textColor);
+  (document.getElementById("theme-outline") as HTMLSelectElement).value = theme.outline;
+
+  const transparent = theme.backgroundColor === "transparent";
+  (document.getElementById("theme-background-transparent") as HTMLInputElement).checked = transparent;
+  (document.getElementById("theme-background-color") as HTMLInputElement).value =
+    transparent ? "#1e293b" : toColorInputValue(theme.backgroundColor);
+
+  (document.getElementById("theme-delete-btn") as HTMLButtonElement).disabled = !custom;
+  showThemeError("");
+  renderThemeStops();
+}
+
+// Colour inputs only take #rrggbb, so expand #rgb and drop any alpha
+function toColorInputValue(color: string): string {
+  const hex = color.slice(1);
+  if (hex.length === 3 || hex.length === 4) {
+    return "#" + hex.slice(0, 3).split("").map((digit) => digit + digit).join("");
+  }
+  return "#" + hex.slice(0, 6);
+}
+
+// Render one row per gradient stop
+function renderThemeStops() {
+  const container = document.getElementById("theme-stops");
+  if (!container) return;
+
+  container.innerHTML = "";
+  editorStops.forEach((stop, index) => {
+    const row = document.createElement("div");
+    row.className = "theme-stop-row";
+    row.innerHTML = `
+      <input type="color" class="color-input" title="Stop colour">
+      <input type="number" class="preset-input" min="0" max="100" title="Position along the bar (%)">
+      <button class="row-remove" title="Remove this stop">✕</button>
+    `;
+
+    const color = row.querySelector("input[type=color]") as HTMLInputElement;
+    const position = row.querySelector("input[type=number]") as HTMLInputElement;
+    const remove = row.querySelector(".row-remove") as HTMLButtonElement;
+
+    color.value = toColorInputValue(stop.color);
+    position.value = stop.position.toString();
+    remove.disabled = editorStops.length === 1;
+
+    color.addEventListener("input", () => {
+      editorStops[index].color = color.value;
+      updateThemePreview();
+    });
+    position.addEventListener("input", () => {
+      const value = parseFloat(position.value);
+      editorStops[index].position = isNaN(value) ? 0 : Math.min(100, Math.max(0, value));
+      updateThemePreview();
+    });
+    remove.addEventListener("click", () => {
+      editorStops.splice(index, 1);
+      renderThemeStops();
+    });
+
+    container.appendChild(row);
+  });
+
+  updateThemePreview();
+}
+
+// New stops go halfway between the last two, or at the end
+function addThemeStop() {
+  const last = editorStops[editorStops.length - 1];
+  const previous = editorStops[editorStops.length - 2];
+  const position = previous ? Math.round((previous.position + last.position) / 2) : 100;
+  editorStops.push({ color: last?.color || "#ffffff", position });
+  renderThemeStops();
+}
+
+// Read the editor form as an unvalidated theme
+function readThemeEditor(): Omit<CustomTheme, "id"> {
+  const transparent = (document.getElementById("theme-background-transparent") as HTMLInputElement).checked;
+  return {
+    name: (document.getElementById("theme-name") as HTMLInputElement).value,
+    stops: editorStops.map((stop) => ({ ...stop })),
+    backgroundColor: transparent
+      ? "transparent"
+      : (document.getElementById("theme-background-color") as HTMLInputElement).value,
+    textColor: (document.getElementById("theme-text-color") as HTMLInputElement).value,
+    fontFamily: (document.getElementById("theme-font") as HTMLSelectElement).value,
+    outline: (document.getElementById("theme-outline") as HTMLSelectElement).value as OutlineStyle,
+  };
+}
+
+// Show the form's theme on the preview bar as it is edited
+function updateThemePreview() {
+  const preview = document.getElementById("theme-preview");
+  if (!preview) return;
+
+  const transparent = (document.getElementById("theme-background-transparent") as HTMLInputElement).checked;
+  (document.getElementById("theme-background-color") as HTMLInputElement).disabled = transparent;
+
+  const theme = toTheme({ id: "", ...readThemeEditor() });
+  (preview.querySelector(".theme-preview-background") as HTMLElement).style.background = theme.backgroundColor;
+  (preview.querySelector(".theme-preview-bar") as HTMLElement).style.background = theme.barColor;
+
+  const time = preview.querySelector(".theme-preview-time") as HTMLElement;
+  time.style.color = theme.textColor;
+  time.style.fontFamily = theme.fontFamily || "";
+
+  Object.values(OutlineStyle).forEach((style) => preview.classList.toggle(`outline-${style}`, style === theme.outline));
+}
+
+function showThemeError(message: string) {
+  const error = document.getElementById("theme-error");
+  if (error) error.textContent = message;
+}
+
+// Validate the form and save it as a new theme or over the one being edited
+async function saveCustomTheme() {
+  const id = editingThemeId || createCustomThemeId(
+    (document.getElementById("theme-name") as HTMLInputElement).value,
+    customThemes.map((theme) => theme.id),
+  );
+  const theme = validateCustomTheme(readThemeEditor(), id);
+  if (typeof theme === "string") {
+    showThemeError(theme);
+    return;
+  }
+
+  const index = customThemes.findIndex((existing) => existing.id === id);
+  if (index === -1) {
+    customThemes.push(theme);
+  } else {
+    customThemes[index] = theme;
+  }
+
+  if (await persistCustomThemes()) {
+    fillThemeEditorSelect(id);
+    openThemeInEditor(id);
+  }
+}
+
+async function deleteCustomTheme() {
+  const theme = customThemes.find((existing) => existing.id === editingThemeId);
+  if (!theme || !confirm(`Delete the theme "${theme.name}"?`)) return;
+
+  customThemes = customThemes.filter((existing) => existing.id !== theme.id);
+  if (await persistCustomThemes()) {
+    fillThemeEditorSelect("");
+    openThemeInEditor("");
+  }
+}
+
+// Save the theme file chosen by the user
+async function exportCustomTheme() {
+  const theme = validateCustomTheme(readThemeEditor(), editingThemeId || "");
+  if (typeof theme === "string") {
+    showThemeError(theme);
+    return;
+  }
+
+  try {
+    const slug = createCustomThemeId(theme.name, []).slice(CUSTOM_THEME_PREFIX.length);
+    await invoke<boolean>("save_json_file", {
+      title: "Export Theme",
+      defaultName: `${slug}.json`,
+      contents: exportThemeFile(theme),
+    });
+  } catch (error) {
+    console.error("Failed to export theme:", error);
+    alert(`Failed to export theme: ${error}`);
+  }
+}
+
+// Add a theme from a theme file and open it in the editor
+async function importCustomTheme() {
+  try {
+    const text = await invoke<string | null>("open_json_file", { title: "Import Theme" });
+    if (text === null) return;
+
+    const theme = importThemeFile(text, customThemes.map((existing) => existing.id));
+    if (typeof theme === "string") {
+      showThemeError(theme);
+      return;
+    }
+
+    customThemes.push(theme);
+    if (await persistCustomThemes()) {
+      fillThemeEditorSelect(theme.id);
+      openThemeInEditor(theme.id);
+    }
+  } catch (error) {
+    console.error("Failed to import theme:", error);
+    alert(`Failed to import theme: ${error}`);
+  }
+}
+
+// Store the custom themes right away and tell the timer bar, which updates
+// the tray's theme menu
+async function persistCustomThemes(): Promise<boolean> {
+  try {
+    await updateSettings(store, { customThemes });
+    console.log("Custom themes saved:", customThemes);
+    await emit("themes-updated", customThemes);
+    refreshThemeSelects();
+    return true;
+  } catch (error) {
+    console.error("Failed to save custom themes:", error);
+    alert("Failed to save the theme. Please try again.");
+    return false;
+  }
+}
+
+// Write a backup file, with the history if the box is ticked
+async function exportSettingsBackup() {
+  const includeHistory = (document.getElementById("backup-include-history") as HTMLInputElement).checked;
+  try {
+    await exportBackup(store, historyStore, includeHistory);
+  } catch (error) {
+    console.error("Failed to export backup:", error);
+    alert(`Failed to export settings: ${error}`);
+  }
+}
+
+// Import a backup file. Unsaved changes in this window are dropped either way.
+async function importSettingsBackup(mode: ImportMode) {
+  if (mode === ImportMode.REPLACE &&
+      !confirm("Replace your presets, themes, shortcuts and other settings with the backup's?")) {
+    return;
+  }
+
+  try {
+    const result = await importBackup(store, historyStore, mode);
+    if (result) alert(describeImport(result));
+  } catch (error) {
+    console.error("Failed to import backup:", error);
+    alert(`Failed to import settings: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Refill the whole form from the store
+async function reloadSettings() {
+  await loadPresets();
+  removedSoundFiles = [];
+  renderPresets();
+  renderPomodoroSettings();
+  renderSequences();
+  renderNotificationSettings();
+  renderOvertimeSettings();
+  renderAdjustSettings();
+  renderBarSettings();
+  renderPlacementSettings();
+  renderHooks();
+  renderApiSettings();
+  renderSoundSettings();
+  const defaultSound = document.getElementById("sound-default") as HTMLSelectElement | null;
+  if (defaultSound) fillSoundSelect(defaultSound, false, soundSettings.defaultSound);
+  fillThemeEditorSelect("");
+  openThemeInEditor("");
+  renderDynamicTheme();
+  renderShortcuts();
+}
+
+// Fill the dynamic theme form from the loaded settings
+function renderDynamicTheme() {
+  const effect = document.getElementById("dynamic-effect") as HTMLSelectElement | null;
+  if (!effect) return;
+
+  if (effect.options.length === 0) {
+    Object.entries(END_EFFECTS).forEach(([key, label]) => effect.add(new Option(label, key)));
+  }
+  effect.value = dynamicTheme.effect;
+  (document.getElementById("dynamic-effect-seconds") as HTMLInputElement).value = dynamicTheme.effectSeconds.toString();
+
+  dynamicStops = dynamicTheme.stops.map((stop) => ({ ...stop }));
+  renderDynamicStops();
+}
+
+// Render one row per dynamic theme stop
+function renderDynamicStops() {
+  const container = document.getElementById("dynamic-stops");
+  if (!container) return;
+
+  container.innerHTML = "";
+  dynamicStops.forEach((stop, index) => {
+    const row = document.createElement("div");
+    row.className = "dynamic-stop-row";
+    row.innerHTML = `
+      <input type="color" class="color-input" title="Stop colour">
+      <input type="number" class="preset-input" min="0" title="Time left when the bar shows this colour">
+      <select class="preset-select" title="Threshold unit"></select>
+      <button class="row-remove" title="Remove this stop">✕</button>
+    `;
+
+    const color = row.querySelector("input[type=color]") as HTMLInputElement;
+    const threshold = row.querySelector("input[type=number]") as HTMLInputElement;
+    const unit = row.querySelector("select") as HTMLSelectElement;
+    const remove = row.querySelector(".row-remove") as HTMLButtonElement;
+
+    Object.entries(THRESHOLD_UNITS).forEach(([key, label]) => unit.add(new Option(label, key)));
+    color.value = stop.color;
+    threshold.value = stop.threshold.toString();
+    unit.value = stop.unit;
+    remove.disabled = dynamicStops.length === 1;
+
+    color.addEventListener("input", () => {
+      dynamicStops[index].color = color.value;
+      updateDynamicPreview();
+    });
+    threshold.addEventListener("input", () => {
+      dynamicStops[index].threshold = threshold.value === "" ? NaN : parseFloat(threshold.value);
+      updateDynamicPreview();
+    });
+    unit.addEventListener("change", () => {
+      dynamicStops[index].unit = unit.value as ThresholdUnit;
+      updateDynamicPreview();
+    });
+    remove.addEventListener("click", () => {
+      dynamicStops.splice(index, 1);
+      renderDynamicStops();
+    });
+
+    container.appendChild(row);
+  });
+
+  updateDynamicPreview();
+}
+
+// New stops copy the last one, so they can be tweaked from there
+function addDynamicStop() {
+  const last = dynamicStops[dynamicStops.length - 1];
+  dynamicStops.push(last ? { ...last } : { ...DEFAULT_DYNAMIC_THEME.stops[0] });
+  renderDynamicStops();
+}
+
+function resetDynamicTheme() {
+  dynamicTheme = resolveDynamicTheme(DEFAULT_DYNAMIC_THEME);
+  renderDynamicTheme();
+}
+
+// Read the dynamic theme form, showing the first problem and returning null
+// if a stop is invalid
+function readDynamicTheme(): DynamicThemeSettings | null {
+  const problem = dynamicStops.map((stop) => validateDynamicStop(stop)).find((error) => error !== null);
+  const effectSeconds = parseInt((document.getElementById("dynamic-effect-seconds") as HTMLInputElement).value, 10);
+
+  let error = problem || "";
+  if (isNaN(effectSeconds) || effectSeconds < 0 || effectSeconds > MAX_EFFECT_SECONDS) {
+    error = `The effect can last from 0 to ${MAX_EFFECT_SECONDS} seconds`;
+  }
+  const message = document.getElementById("dynamic-error");
+  if (message) message.textContent = error;
+  if (error) return null;
+
+  return {
+    stops: dynamicStops.map((stop) => ({ ...stop })),
+    effect: (document.getElementById("dynamic-effect") as HTMLSelectElement).value as EndEffect,
+    effectSeconds,
+  };
+}
+
+// Draw the colours a 25-minute countdown goes through, start on the left
+function updateDynamicPreview() {
+  const preview = document.getElementById("dynamic-preview");
+  if (!preview) return;
+
+  const settings = readDynamicTheme();
+  if (!settings) return;
+
+  const ramp = resolveDynamicRamp(settings, DYNAMIC_PREVIEW_SECONDS);
+  const steps = 20;
+  const colors = Array.from({ length: steps + 1 }, (_, i) =>
+    getDynamicColor(ramp, DYNAMIC_PREVIEW_SECONDS * (1 - i / steps)));
+  preview.style.background = `linear-gradient(90deg, ${colors.join(", ")})`;
+}
+
+// Read the pomodoro form, or null if any field is invalid
+function readPomodoroSettings(): PomodoroSettings | null {
+  const durations: Partial<Record<PomodoroPhase, number>> = {};
+  let hasError = false;
+
+  Object.values(PomodoroPhase).forEach((phase) => {
+    const input = document.getElementById(POMODORO_DURATION_INPUTS[phase]) as HTMLInputElement;
+    const seconds = validateInput(input);
+    if (seconds === null) {
+      hasError = true;
+      return;
+    }
+    durations[phase] = seconds;
+  });
+
+  const intervalInput = document.getElementById("pomodoro-interval") as HTMLInputElement;
+  const interval = parseInt(intervalInput.value, 10);
+  if (isNaN(interval) || interval < 1) {
+    intervalInput.classList.add("error");
+    hasError = true;
+  } else {
+    intervalInput.classList.remove("error");
+  }
+
+  if (hasError) return null;
+
+  const phaseThemes = { ...pomodoroSettings.phaseThemes };
+  Object.values(PomodoroPhase).forEach((phase) => {
+    const select = document.getElementById(POMODORO_THEME_SELECTS[phase]) as HTMLSelectElement;
+    phaseThemes[phase] = select.value;
+  });
+
+  return {
+    workSeconds: durations[PomodoroPhase.WORK]!,
+    shortBreakSeconds: durations[PomodoroPhase.SHORT_BREAK]!,
+    longBreakSeconds: durations[PomodoroPhase.LONG_BREAK]!,
+    longBreakInterval: interval,
+    autoStart: (document.getElementById("pomodoro-autostart") as HTMLInputElement).checked,
+    phaseThemes,
+  };
+}
+
+// Render the shortcut editor, flagging duplicate or refused bindings
+function renderShortcuts(failures: ShortcutFailure[] = []) {
+  const container = document.getElementById("shortcuts-list");
+  if (!container) return;
+
+  container.innerHTML = "";
+  const duplicates = findDuplicateBindings(shortcutBindings).flat();
+
+  Object.values(ShortcutAction).forEach((action) => {
+    const failure = failures.find((f) => f.action === action);
+    const isDuplicate = duplicates.includes(action);
+
+    const row = document.createElement("div");
+    row.className = "shortcut-row";
+    row.innerHTML = `
+      <span class="shortcut-label">${SHORTCUT_LABELS[action]}</span>
+      <button class="shortcut-recorder" title="Click, then press a key combination"></button>
+      <button class="shortcut-clear" title="Remove this shortcut">✕</button>
+      <div class="shortcut-error"></div>
+    `;
+
+    const recorder = row.querySelector(".shortcut-recorder") as HTMLButtonElement;
+    const clearBtn = row.querySelector(".shortcut-clear") as HTMLButtonElement;
+    const errorText = row.querySelector(".shortcut-error") as HTMLElement;
+
+    const isRecording = recordingAction === action;
+    recorder.textContent = isRecording ? "Press keys…" : formatAccelerator(shortcutBindings[action]);
+    recorder.classList.toggle("recording", isRecording);
+    recorder.classList.toggle("error", isDuplicate || !!failure);
+
+    if (isDuplicate) {
+      errorText.textContent = "Also used by another action";
+    } else if (failure) {
+      errorText.textContent = "Could not register (already in use by another app?)";
+    }
+
+    recorder.addEventListener("click", () => {
+      // The clicked button keeps focus and receives the key presses
+      recordingAction = action;
+      recorder.textContent = "Press keys…";
+      recorder.classList.add("recording");
+    });
+    recorder.addEventListener("keydown", (e) => recordShortcut(e, action));
+    recorder.addEventListener("blur", () => {
+      if (recordingAction === action) {
+        recordingAction = null;
+        renderShortcuts();
+      }
+    });
+    clearBtn.addEventListener("click", () => {
+      shortcutBindings[action] = "";
+      renderShortcuts();
+    });
+
+    container.appendChild(row);
+  });
+}
+
+// Capture a key combination for the action being recorded
+function recordShortcut(e: KeyboardEvent, action: ShortcutAction) {
+  if (recordingAction !== action) return;
+
+  e.preventDefault();
+  e.stopPropagation();
+
+  const hasModifier = e.ctrlKey || e.altKey || e.shiftKey || e.metaKey;
+  if (e.key === "Escape" && !hasModifier) {
+    // Cancel recording
+    recordingAction = null;
+  } else if ((e.key === "Backspace" || e.key === "Delete") && !hasModifier) {
+    // Clear the binding
+    shortcutBindings[action] = "";
+    recordingAction = null;
+  } else {
+    const accelerator = keyEventToAccelerator(e);
+    if (!accelerator) return; // only modifiers held so far
+    shortcutBindings[action] = accelerator;
+    recordingAction = null;
+  }
+
+  renderShortcuts();
+}
+
+// Ask the timer window to re-register shortcuts and wait for the bindings it
+// could not register
+async function applyShortcuts(bindings: ShortcutBindings): Promise<ShortcutFailure[]> {
+  let resolveReply: (failures: ShortcutFailure[]) => void = () => {};
+  const reply = new Promise<ShortcutFailure[]>((resolve) => {
+    resolveReply = resolve;
+  });
+  const unlisten = await listen<ShortcutFailure[]>("shortcuts-registered", (event) => resolveReply(event.payload));
+
+  try {
+    await emit("shortcuts-updated", bindings);
+
+    // Don't block saving if the timer window does not answer
+    const timeout = new Promise<ShortcutFailure[]>((resolve) => {
+      setTimeout(() => resolve([]), SHORTCUT_REPLY_TIMEOUT_MS);
+    });
+    return await Promise.race([reply, timeout]);
+  } finally {
+    unlisten();
+  }
+}
+
 // Create a preset item element
 function createPresetItem(preset: PresetTime, index: number): HTMLElement {
   const div = document.createElement("div");
   div.className = "preset-item";
-  div.dataset.index = index.toString();
 
   div.innerHTML = `
-    <div>
+    <span class="drag-grip" title="Drag to reorder">⋮⋮</span>
+    <div class="preset-fields">
       <div class="preset-label">Preset ${index + 1}</div>
-      <input 
-        type="text" 
-        class="preset-input" 
-        value="${formatSecondsToHHMMSS(preset.seconds)}"
-        placeholder="HH:MM:SS"
-        maxlength="8"
-        data-index="${index}"
-      >
+      <div class="preset-row">
+        <input 
+          type="text" 
+          class="preset-name" 
+          placeholder="${generateLabel(preset.seconds)}"
+          maxlength="40"
+        >
+        <input 
+          type="text" 
+          class="preset-input" 
+          value="${formatSecondsToHHMMSS(preset.seconds)}"
+          placeholder="25m, 1h30m, 1:30:00"
+          maxlength="20"
+        >
+      </div>
+      <div class="preset-row">
+        <select class="preset-select preset-mode" title="Mode"></select>
+        <select class="preset-select preset-theme" title="Theme"></select>
+        <select class="preset-select preset-sound" title="Completion sound"></select>
+      </div>
+      <div class="input-error"></div>
     </div>
-    <button class="delete-btn" data-index="${index}" title="Delete this preset">🗑️</button>
+    <button class="delete-btn" title="Delete this preset">🗑️</button>
   `;
 
-  // Add event listeners
+  const nameInput = div.querySelector(".preset-name") as HTMLInputElement;
   const input = div.querySelector(".preset-input") as HTMLInputElement;
+  const modeSelect = div.querySelector(".preset-mode") as HTMLSelectElement;
+  const themeSelect = div.querySelector(".preset-theme") as HTMLSelectElement;
+  const soundSelect = div.querySelector(".preset-sound") as HTMLSelectElement;
   const deleteBtn = div.querySelector(".delete-btn") as HTMLButtonElement;
 
-  input.addEventListener("blur", () => validateInput(input));
-  input.addEventListener("input", (e) => {
-    const target = e.target as HTMLInputElement;
-    target.value = target.value.replace(/[^0-9:]/g, "");
+  // Auto-generated labels stay empty so they follow the time when it changes
+  nameInput.value = preset.label === generateLabel(preset.seconds) ? "" : preset.label;
+
+  Object.entries(PRESET_MODES).forEach(([key, label]) => modeSelect.add(new Option(label, key)));
+  modeSelect.value = preset.mode || TimerMode.COUNTDOWN;
+
+  fillThemeSelect(themeSelect, preset.theme || "");
+
+  fillSoundSelect(soundSelect, true, preset.sound || "");
+
+  // Add event listeners
+  input.addEventListener("blur", () => {
+    const seconds = validateInput(input);
+    if (seconds !== null) {
+      input.value = formatSecondsToHHMMSS(seconds);
+      nameInput.placeholder = generateLabel(seconds);
+    }
   });
-  input.addEventListener("keydown", (e) => {
-    if (e.key === "Enter") savePresets();
-    else if (e.key === "Escape") closeWindow();
+  [nameInput, input].forEach((field) => {
+    field.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") savePresets();
+      else if (e.key === "Escape") closeWindow();
+    });
   });
 
-  deleteBtn.addEventListener("click", () => deletePreset(index));
+  deleteBtn.addEventListener("click", () => deletePreset(div));
+
+  setupPresetDragging(div);
 
   return div;
 }
 
+// Preset item currently being dragged
+let draggedItem: HTMLElement | null = null;
+
+// Drag-to-reorder: items only become draggable while grabbed by the grip, so
+// text in the inputs can still be selected with the mouse
+function setupPresetDragging(div: HTMLElement) {
+  const grip = div.querySelector(".drag-grip") as HTMLElement;
+
+  grip.addEventListener("mousedown", () => {
+    div.draggable = true;
+  });
+  grip.addEventListener("mouseup", () => {
+    div.draggable = false;
+  });
+
+  div.addEventListener("dragstart", (e) => {
+    draggedItem = div;
+    div.classList.add("dragging");
+    e.dataTransfer?.setData("text/plain", "");
+  });
+
+  div.addEventListener("dragover", (e) => {
+    e.preventDefault();
+    if (!draggedItem || draggedItem === div) return;
+
+    // Drop above or below depending on which half of the item is hovered
+    const rect = div.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    div.parentElement?.insertBefore(draggedItem, after ? div.nextSibling : div);
+  });
+
+  div.addEventListener("dragend", () => {
+    div.draggable = false;
+    div.classList.remove("dragging");
+    draggedItem = null;
+    renumberPresets();
+  });
+}
+
+// Update the "Preset N" captions after items were added, moved or removed
+function renumberPresets() {
+  document.querySelectorAll("#presets-list .preset-label").forEach((label, index) => {
+    label.textContent = `Preset ${index + 1}`;
+  });
+}
+
 // Add new preset
 function addPreset() {
+  const container = document.getElementById("presets-list");
+  if (!container) return;
+
+  container.querySelector(".empty-state")?.remove();
+
   // Add a default 10-minute preset
-  presets.push({
-    seconds: 600,
-    label: "10 min",
-  });
-  renderPresets();
-  
-  // Focus the new input
+  const count = container.querySelectorAll(".preset-item").length;
+  const item = createPresetItem({ seconds: 600, label: generateLabel(600) }, count);
+  container.appendChild(item);
+
+  // Focus the new name input
   setTimeout(() => {
-    const inputs = document.querySelectorAll(".preset-input");
-    const lastInput = inputs[inputs.length - 1] as HTMLInputElement;
-    if (lastInput) {
-      lastInput.focus();
-      lastInput.select();
-    }
+    const nameInput = item.querySelector(".preset-name") as HTMLInputElement;
+    nameInput.focus();
   }, 50);
 }
 
 // Delete preset
-function deletePreset(index: number) {
-  if (presets.length === 1) {
+function deletePreset(item: HTMLElement) {
+  if (document.querySelectorAll("#presets-list .preset-item").length === 1) {
     alert("You must have at least one preset!");
     return;
   }
 
-  if (confirm(`Delete preset "${presets[index].label}"?`)) {
-    presets.splice(index, 1);
-    renderPresets();
+  const nameInput = item.querySelector(".preset-name") as HTMLInputElement;
+  const name = nameInput.value.trim() || nameInput.placeholder;
+
+  if (confirm(`Delete preset "${name}"?`)) {
+    item.remove();
+    renumberPresets();
   }
 }
 
@@ -155,26 +1596,6 @@ function formatSecondsToHHMMSS(totalSeconds: number): string {
   return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
 }
 
-// Parse HH:MM:SS to seconds
-function parseHHMMSS(input: string): number | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
-
-  const match = trimmed.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
-  if (!match) return null;
-
-  const hours = parseInt(match[1], 10);
-  const minutes = parseInt(match[2], 10);
-  const seconds = parseInt(match[3], 10);
-
-  if (minutes >= 60 || seconds >= 60 || hours < 0 || minutes < 0 || seconds < 0) {
-    return null;
-  }
-
-  const totalSeconds = hours * 3600 + minutes * 60 + seconds;
-  return totalSeconds === 0 ? null : totalSeconds;
-}
-
 // Generate label from seconds
 function generateLabel(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
@@ -208,57 +1629,102 @@ function setupEventListeners() {
 
   // Add preset button
   document.getElementById("add-preset-btn")?.addEventListener("click", addPreset);
+
+  // Sound controls
+  document.getElementById("sound-volume")?.addEventListener("input", updateVolumeLabel);
+  document.getElementById("sound-test-btn")?.addEventListener("click", testSound);
+  document.getElementById("sound-add-btn")?.addEventListener("click", addCustomSound);
+
+  // Dynamic theme
+  document.getElementById("dynamic-add-stop-btn")?.addEventListener("click", addDynamicStop);
+  document.getElementById("dynamic-reset-btn")?.addEventListener("click", resetDynamicTheme);
+  document.getElementById("dynamic-effect-seconds")?.addEventListener("input", updateDynamicPreview);
+
+  // Theme editor
+  document.getElementById("theme-editor-select")?.addEventListener("change", (e) => {
+    openThemeInEditor((e.target as HTMLSelectElement).value);
+  });
+  ["theme-name", "theme-font", "theme-text-color", "theme-outline", "theme-background-color", "theme-background-transparent"]
+    .forEach((id) => document.getElementById(id)?.addEventListener("input", updateThemePreview));
+  document.getElementById("theme-add-stop-btn")?.addEventListener("click", addThemeStop);
+  document.getElementById("theme-save-btn")?.addEventListener("click", saveCustomTheme);
+  document.getElementById("theme-delete-btn")?.addEventListener("click", deleteCustomTheme);
+  document.getElementById("theme-import-btn")?.addEventListener("click", importCustomTheme);
+  document.getElementById("theme-export-btn")?.addEventListener("click", exportCustomTheme);
+
+  // Sequences
+  document.getElementById("sequence-add-btn")?.addEventListener("click", addSequence);
+
+  // Hooks
+  document.getElementById("hook-add-btn")?.addEventListener("click", addHook);
+
+  // Local API
+  document.getElementById("api-token-btn")?.addEventListener("click", renewApiToken);
+  document.getElementById("api-copy-btn")?.addEventListener("click", copyApiToken);
+
+  // Backup
+  document.getElementById("backup-export-btn")?.addEventListener("click", exportSettingsBackup);
+  document.getElementById("backup-merge-btn")?.addEventListener("click", () => importSettingsBackup(ImportMode.MERGE));
+  document.getElementById("backup-replace-btn")?.addEventListener("click", () => importSettingsBackup(ImportMode.REPLACE));
+
+  // Pomodoro duration inputs: same format rules as preset inputs
+  document.querySelectorAll(".duration-input").forEach((element) => {
+    const input = element as HTMLInputElement;
+    input.addEventListener("blur", () => {
+      const seconds = validateInput(input);
+      if (seconds !== null) input.value = formatSecondsToHHMMSS(seconds);
+    });
+  });
 }
 
-// Validate input field
-function validateInput(input: HTMLInputElement): boolean {
-  const value = input.value.trim();
-  
-  if (!value) {
-    input.classList.add("error");
-    input.classList.remove("success");
-    return false;
-  }
+// Validate a duration field, showing the reason next to it when rejected.
+// Returns the duration in seconds, or null if invalid.
+function validateInput(input: HTMLInputElement): number | null {
+  const result = parseDuration(input.value);
 
-  const seconds = parseHHMMSS(value);
-  if (seconds === null) {
-    input.classList.add("error");
-    input.classList.remove("success");
-    return false;
+  // Presets and phases need a fixed length, so "+5m" or "until 14:30" do not fit
+  let error = result.ok ? "" : result.error;
+  if (result.ok && result.duration.kind !== DurationKind.ABSOLUTE) {
+    error = "Enter a fixed length here, e.g. 25m or 1:30:00";
   }
 
-  input.classList.add("success");
-  input.classList.remove("error");
-  return true;
+  input.classList.toggle("error", error !== "");
+  input.classList.toggle("success", error === "");
+  input.title = error;
+
+  const message = input.closest(".preset-fields, .field")?.querySelector(".input-error");
+  if (message) message.textContent = error;
+
+  return result.ok && !error ? result.duration.seconds : null;
 }
 
 // Save presets
 async function savePresets() {
-  const inputs = document.querySelectorAll(".preset-input") as NodeListOf<HTMLInputElement>;
+  const items = document.querySelectorAll("#presets-list .preset-item") as NodeListOf<HTMLElement>;
   const newPresets: PresetTime[] = [];
   let hasError = false;
 
-  inputs.forEach((input) => {
-    const value = input.value.trim();
-    
-    if (!value) {
+  items.forEach((item) => {
+    const input = item.querySelector(".preset-input") as HTMLInputElement;
+    const seconds = validateInput(input);
+    if (seconds === null) {
       hasError = true;
-      input.classList.add("error");
       return;
     }
 
-    if (!validateInput(input)) {
-      hasError = true;
-      return;
-    }
+    const name = (item.querySelector(".preset-name") as HTMLInputElement).value.trim();
+    const mode = (item.querySelector(".preset-mode") as HTMLSelectElement).value as TimerMode;
+    const theme = (item.querySelector(".preset-theme") as HTMLSelectElement).value;
+    const sound = (item.querySelector(".preset-sound") as HTMLSelectElement).value;
 
-    const seconds = parseHHMMSS(value);
-    if (seconds !== null) {
-      newPresets.push({
-        seconds,
-        label: generateLabel(seconds),
-      });
-    }
+    // Optional fields are only stored when they differ from the defaults
+    newPresets.push({
+      seconds,
+      label: name || generateLabel(seconds),
+      ...(mode !== TimerMode.COUNTDOWN && { mode }),
+      ...(theme && { theme }),
+      ...(sound && { sound }),
+    });
   });
 
   if (hasError) {
@@ -271,29 +1737,111 @@ async function savePresets() {
     return;
   }
 
+  const newPomodoroSettings = readPomodoroSettings();
+  if (!newPomodoroSettings) {
+    alert("Please fix the invalid Pomodoro settings before saving.");
+    return;
+  }
+
+  const newDynamicTheme = readDynamicTheme();
+  if (!newDynamicTheme) {
+    alert("Please fix the invalid Dynamic Theme stops before saving.");
+    return;
+  }
+
+  if (!validateSequences()) {
+    alert("Please fix the invalid sequences before saving.");
+    return;
+  }
+
+  const newOvertimeSettings = readOvertimeSettings();
+  if (!newOvertimeSettings) {
+    alert("Please fix the invalid Overtime reminder before saving.");
+    return;
+  }
+
+  const newBarSettings = readBarSettings();
+  if (!newBarSettings) {
+    alert("Please fix the invalid bar size before saving.");
+    return;
+  }
+
+  if (!validateHooks()) {
+    alert("Please fix the invalid hooks before saving.");
+    return;
+  }
+
+  const newApiSettings = readApiSettings();
+  if (!newApiSettings) {
+    alert("Please fix the invalid Local API port before saving.");
+    return;
+  }
+
+  if (findDuplicateBindings(shortcutBindings).length > 0) {
+    renderShortcuts();
+    alert("Two actions share the same shortcut. Please change one of them.");
+    return;
+  }
+
   try {
-    // Get existing settings
-    const existingSettings = await store.get<Settings>("settings");
-    const settings: Settings = existingSettings || {
-      presets: [],
-      barColor: "",
-      backgroundColor: "",
-      textColor: "",
-      startPauseKey: "PageUp",
-      resetKey: "PageDown",
-    };
-    
-    // Update presets
-    settings.presets = newPresets;
-    
-    // Save to store
-    await store.set("settings", settings);
-    await store.save();
+    // Update presets, sequences, pomodoro cycle, shortcuts, notifications,
+    // tray icon, overtime, wheel adjustments, bar size and layout, window
+    // placement, sounds and the dynamic theme; the theme and custom themes
+    // are left as stored
+    const settings = await updateSettings(store, {
+      presets: newPresets,
+      sequences: sequences.map((sequence) => ({
+        ...sequence,
+        name: sequence.name.trim(),
+        segments: sequence.segments.map((segment) => ({ ...segment, label: segment.label.trim() })),
+      })),
+      pomodoro: newPomodoroSettings,
+      shortcuts: { ...shortcutBindings },
+      notifications: (document.getElementById("notifications-enabled") as HTMLInputElement).checked,
+      tray: { progressIcon: (document.getElementById("tray-progress-icon") as HTMLInputElement).checked },
+      overtime: newOvertimeSettings,
+      adjust: readAdjustSettings(),
+      bar: newBarSettings,
+      placement: readPlacementSettings(),
+      sounds: readSoundSettings(),
+      dynamicTheme: newDynamicTheme,
+      api: newApiSettings,
+      hooks,
+    });
+    await deleteRemovedSoundFiles();
 
     console.log("Presets saved:", newPresets);
 
     // Emit event to rebuild tray menu
     await emit("presets-updated", newPresets);
+    await emit("pomodoro-settings-updated", newPomodoroSettings);
+    await emit("notification-settings-updated", settings.notifications);
+    await emit("tray-settings-updated", settings.tray);
+    await emit("overtime-settings-updated", settings.overtime);
+    await emit("adjust-settings-updated", settings.adjust);
+    await emit("bar-settings-updated", settings.bar);
+    await emit("placement-settings-updated", settings.placement);
+    await emit("sound-settings-updated", settings.sounds);
+    await emit("dynamic-theme-updated", newDynamicTheme);
+    await emit("hooks-updated", settings.hooks);
+    await emit("api-settings-updated", settings.api);
+    apiSettings = settings.api;
+
+    // Register the new shortcuts live; keep the window open on conflicts
+    const failures = await applyShortcuts(shortcutBindings);
+    if (failures.length > 0) {
+      renderShortcuts(failures);
+      alert("Some shortcuts could not be registered. They are highlighted in red.");
+      return;
+    }
+
+    // Start the server here too, so a taken port is reported
+    try {
+      await configureApi(settings.api);
+    } catch (error) {
+      alert(`The local API could not start: ${error}`);
+      return;
+    }
 
     // Close window
     closeWindow();
@@ -0,0 +1,127 @@
+// Shortcut bindings: which accelerator triggers which timer action, and the
+// helpers the settings window uses to record key combos.
+//
+// Accelerators use the global-shortcut plugin format: modifiers followed by
+// a KeyboardEvent.code, e.g. "Control+Shift+KeyP" or "PageUp".
+
+import { AppAction, ACTIONS } from "./actions";
+
+// Actions that can be bound to a shortcut, a subset of the action registry
+export const ShortcutAction = {
+  START_PAUSE: AppAction.START_PAUSE,
+  RESET: AppAction.RESET,
+  SHOW_WINDOW: AppAction.SHOW_WINDOW,
+  TOGGLE_MODE: AppAction.TOGGLE_MODE,
+  NEXT_PRESET: AppAction.NEXT_PRESET,
+  ADD_MINUTE: AppAction.ADD_MINUTE,
+  ADD_FIVE_MINUTES: AppAction.ADD_FIVE_MINUTES,
+  SUBTRACT_MINUTE: AppAction.SUBTRACT_MINUTE,
+  SNOOZE: AppAction.SNOOZE,
+  NEXT_TIMER: AppAction.NEXT_TIMER,
+  LAP: AppAction.LAP,
+} as const;
+
+export type ShortcutAction = typeof ShortcutAction[keyof typeof ShortcutAction];
+
+// Accelerator per action; an empty string leaves the action unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_LABELS = Object.fromEntries(
+  Object.values(ShortcutAction).map((action) => [action, ACTIONS[action].label]),
+) as Record<ShortcutAction, string>;
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  [ShortcutAction.START_PAUSE]: "PageUp",
+  [ShortcutAction.RESET]: "PageDown",
+  [ShortcutAction.SHOW_WINDOW]: "End",
+  [ShortcutAction.TOGGLE_MODE]: "",
+  [ShortcutAction.NEXT_PRESET]: "",
+  [ShortcutAction.ADD_MINUTE]: "",
+  [ShortcutAction.ADD_FIVE_MINUTES]: "",
+  [ShortcutAction.SUBTRACT_MINUTE]: "",
+  [ShortcutAction.SNOOZE]: "",
+  [ShortcutAction.NEXT_TIMER]: "",
+  [ShortcutAction.LAP]: "",
+};
+
+// Saved fields that carry shortcut bindings
+interface ShortcutSettings {
+  startPauseKey?: string;
+  resetKey?: string;
+  shortcuts?: Partial<ShortcutBindings>;
+}
+
+// A binding the OS refused, e.g. because another app already owns it
+export interface ShortcutFailure {
+  action: ShortcutAction;
+  accelerator: string;
+  error: string;
+}
+
+const MODIFIER_CODES = new Set([
+  "ControlLeft", "ControlRight",
+  "ShiftLeft", "ShiftRight",
+  "AltLeft", "AltRight",
+  "MetaLeft", "MetaRight",
+  "OSLeft", "OSRight",
+]);
+
+// Merge saved bindings over the defaults. The older startPauseKey/resetKey
+// fields still count when the bindings map does not override them.
+export function resolveShortcuts(settings?: ShortcutSettings): ShortcutBindings {
+  const bindings: ShortcutBindings = { ...DEFAULT_SHORTCUTS };
+  if (settings?.startPauseKey) bindings[ShortcutAction.START_PAUSE] = settings.startPauseKey;
+  if (settings?.resetKey) bindings[ShortcutAction.RESET] = settings.resetKey;
+  Object.values(ShortcutAction).forEach((action) => {
+    const saved = settings?.shortcuts?.[action];
+    if (typeof saved === "string") bindings[action] = saved;
+  });
+  return bindings;
+}
+
+// Accelerator for a key press, or null while only modifiers are held
+export function keyEventToAccelerator(e: KeyboardEvent): string | null {
+  if (MODIFIER_CODES.has(e.code) || !e.code) return null;
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Control");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey) parts.push("Shift");
+  if (e.metaKey) parts.push("Super");
+  parts.push(e.code);
+  return parts.join("+");
+}
+
+// Whether a local key press matches a binding
+export function matchesAccelerator(e: KeyboardEvent, accelerator: string): boolean {
+  return accelerator !== "" && keyEventToAccelerator(e)?.toLowerCase() === accelerator.toLowerCase();
+}
+
+// Human-readable form, e.g. "Ctrl+Shift+P"
+export function formatAccelerator(accelerator: string): string {
+  if (!accelerator) return "Not set";
+
+  return accelerator
+    .split("+")
+    .map((part) => {
+      if (part === "Control") return "Ctrl";
+      if (part === "Super") return "Win";
+      if (/^Key[A-Z]$/.test(part)) return part.slice(3);
+      if (/^Digit[0-9]$/.test(part)) return part.slice(5);
+      return part;
+    })
+    .join("+");
+}
+
+// Actions sharing the same accelerator, grouped by accelerator
+export function findDuplicateBindings(bindings: ShortcutBindings): ShortcutAction[][] {
+  const byAccelerator = new Map<string, ShortcutAction[]>();
+
+  (Object.keys(bindings) as ShortcutAction[]).forEach((action) => {
+    const accelerator = bindings[action].toLowerCase();
+    if (!accelerator) return;
+    byAccelerator.set(accelerator, [...(byAccelerator.get(accelerator) || []), action]);
+  });
+
+  return Array.from(byAccelerator.values()).filter((actions) => actions.length > 1);
+}
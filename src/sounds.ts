@@ -0,0 +1,234 @@
+// Completion sounds: built-in synthesized tones and user sound files, shared
+// by the timer bar and the settings window (for the test button).
+//
+// Sound ids are either a built-in key, SILENT_SOUND, or CUSTOM_SOUND_PREFIX
+// followed by the file name in the app's sounds folder.
+
+import { invoke } from "@tauri-apps/api/core";
+
+export interface Tone {
+  frequency: number; // Hz
+  start: number; // seconds after the sound starts
+  duration: number; // seconds
+  type?: OscillatorType; // sine if unset
+  gain?: number; // relative loudness, 1 if unset
+}
+
+export interface BuiltInSound {
+  name: string;
+  tones: Tone[];
+}
+
+// A user sound file copied into the app's sounds folder
+export interface CustomSound {
+  file: string; // file name inside the sounds folder
+  name: string;
+}
+
+export interface SoundSettings {
+  defaultSound: string; // played when a preset does not pick one
+  volume: number; // 0 to 1
+  repeatUntilDismissed: boolean; // keep ringing until a click or shortcut
+  customSounds: CustomSound[];
+}
+
+export interface SoundPlayback {
+  ended: Promise<void>; // resolves when the sound finishes or is stopped
+  stop(): void;
+}
+
+export const SILENT_SOUND = "none";
+export const CUSTOM_SOUND_PREFIX = "custom:";
+export const DEFAULT_SOUND = "chime";
+
+// Peak gain of a tone at full volume
+const TONE_GAIN = 0.25;
+
+export const BUILT_IN_SOUNDS: Record<string, BuiltInSound> = {
+  chime: {
+    // C-E-G-C-E-G, the original 6-beep notification
+    name: "Chime",
+    tones: [
+      { frequency: 523.25, start: 0, duration: 0.2 },
+      { frequency: 659.25, start: 0.21, duration: 0.2 },
+      { frequency: 783.99, start: 0.42, duration: 0.2 },
+      { frequency: 523.25, start: 0.63, duration: 0.2 },
+      { frequency: 659.25, start: 0.84, duration: 0.2 },
+      { frequency: 783.99, start: 1.05, duration: 0.3 },
+    ],
+  },
+  bell: {
+    name: "Bell",
+    tones: [
+      { frequency: 1046.5, start: 0, duration: 1.2 },
+      { frequency: 1568, start: 0, duration: 0.8, gain: 0.5 },
+      { frequency: 1046.5, start: 1.3, duration: 1.2 },
+      { frequency: 1568, start: 1.3, duration: 0.8, gain: 0.5 },
+    ],
+  },
+  digital: {
+    name: "Digital Watch",
+    tones: [0, 0.16, 0.32, 0.48, 0.9, 1.06, 1.22, 1.38].map((start) => ({
+      frequency: 2000,
+      start,
+      duration: 0.08,
+      type: "square" as OscillatorType,
+      gain: 0.4,
+    })),
+  },
+  gentle: {
+    name: "Gentle Rise",
+    tones: [440, 523.25, 659.25, 880].map((frequency, index) => ({
+      frequency,
+      start: index * 0.45,
+      duration: 0.6,
+      type: "triangle" as OscillatorType,
+    })),
+  },
+  alarm: {
+    name: "Alarm Clock",
+    tones: [0, 1, 2, 3, 4, 5, 6, 7].map((index) => ({
+      frequency: index % 2 === 0 ? 880 : 660,
+      start: index * 0.18,
+      duration: 0.15,
+      type: "sawtooth" as OscillatorType,
+      gain: 0.5,
+    })),
+  },
+};
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  defaultSound: DEFAULT_SOUND,
+  volume: 1,
+  repeatUntilDismissed: false,
+  customSounds: [],
+};
+
+// Sound files read from the backend, by file name
+const soundFileCache = new Map<string, ArrayBuffer>();
+
+// Merge saved sound settings over the defaults
+export function resolveSoundSettings(saved?: Partial<SoundSettings>): SoundSettings {
+  const volume = typeof saved?.volume === "number" ? Math.min(1, Math.max(0, saved.volume)) : 1;
+  const customSounds = Array.isArray(saved?.customSounds)
+    ? saved.customSounds.filter((sound) => typeof sound?.file === "string" && typeof sound?.name === "string")
+    : [];
+
+  return {
+    ...DEFAULT_SOUND_SETTINGS,
+    ...saved,
+    volume,
+    customSounds,
+  };
+}
+
+// Selectable sounds as id → label: built-ins, then user files, then silence
+export function getSoundOptions(settings: SoundSettings): Record<string, string> {
+  const options: Record<string, string> = {};
+  Object.entries(BUILT_IN_SOUNDS).forEach(([key, sound]) => (options[key] = sound.name));
+  settings.customSounds.forEach((sound) => (options[CUSTOM_SOUND_PREFIX + sound.file] = sound.name));
+  options[SILENT_SOUND] = "Silent";
+  return options;
+}
+
+// Sound to play for a preset's choice; unset or unknown ids use the default
+export function resolveSoundId(sound: string | undefined, settings: SoundSettings): string {
+  const options = getSoundOptions(settings);
+  const id = sound && sound in options ? sound : settings.defaultSound;
+  return id in options ? id : DEFAULT_SOUND;
+}
+
+// Play a sound at the given volume; null when silent or nothing could play
+export async function playSound(soundId: string, volume: number): Promise<SoundPlayback | null> {
+  if (soundId === SILENT_SOUND) return null;
+
+  try {
+    if (soundId.startsWith(CUSTOM_SOUND_PREFIX)) {
+      return await playSoundFile(soundId.slice(CUSTOM_SOUND_PREFIX.length), volume);
+    }
+    return playTones((BUILT_IN_SOUNDS[soundId] || BUILT_IN_SOUNDS[DEFAULT_SOUND]).tones, volume);
+  } catch (error) {
+    console.error("Failed to play sound:", soundId, error);
+
+    // Fall back to the built-in default, e.g. when a sound file went missing
+    return soundId === DEFAULT_SOUND ? null : playSound(DEFAULT_SOUND, volume);
+  }
+}
+
+function createAudioContext(): AudioContext {
+  return new (window.AudioContext || (window as any).webkitAudioContext)();
+}
+
+// Schedule the tones with a short fade in and out each
+function playTones(tones: Tone[], volume: number): SoundPlayback {
+  const audioContext = createAudioContext();
+  const now = audioContext.currentTime;
+
+  tones.forEach((tone) => {
+    const oscillator = audioContext.createOscillator();
+    const gainNode = audioContext.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+
+    oscillator.frequency.value = tone.frequency;
+    oscillator.type = tone.type || "sine";
+
+    const startTime = now + tone.start;
+    const endTime = startTime + tone.duration;
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(TONE_GAIN * (tone.gain ?? 1) * volume, startTime + 0.02);
+    gainNode.gain.linearRampToValueAtTime(0, endTime);
+
+    oscillator.start(startTime);
+    oscillator.stop(endTime);
+  });
+
+  const length = Math.max(...tones.map((tone) => tone.start + tone.duration));
+  return createPlayback(audioContext, length);
+}
+
+// Decode and play a sound file read through the backend
+async function playSoundFile(file: string, volume: number): Promise<SoundPlayback> {
+  let data = soundFileCache.get(file);
+  if (!data) {
+    data = await invoke<ArrayBuffer>("read_sound_file", { file });
+    soundFileCache.set(file, data);
+  }
+
+  const audioContext = createAudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given, so keep the cached copy intact
+    const buffer = await audioContext.decodeAudioData(data.slice(0));
+    const source = audioContext.createBufferSource();
+    const gainNode = audioContext.createGain();
+
+    source.buffer = buffer;
+    gainNode.gain.value = volume;
+    source.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+    source.start();
+
+    return createPlayback(audioContext, buffer.duration);
+  } catch (error) {
+    audioContext.close();
+    throw error;
+  }
+}
+
+// Close the audio context once the sound has finished or is stopped
+function createPlayback(audioContext: AudioContext, durationSeconds: number): SoundPlayback {
+  let finish!: () => void;
+  const ended = new Promise<void>((resolve) => (finish = resolve));
+
+  const stop = () => {
+    window.clearTimeout(timeoutId);
+    if (audioContext.state !== "closed") {
+      audioContext.close().catch((error) => console.error("Failed to close audio context:", error));
+    }
+    finish();
+  };
+  const timeoutId = window.setTimeout(stop, durationSeconds * 1000);
+
+  return { ended, stop };
+}
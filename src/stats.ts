@@ -0,0 +1,182 @@
+import { Store } from "@tauri-apps/plugin-store";
+import { getCurrentWindow } from "@tauri-apps/api/window";
+import { listen } from "@tauri-apps/api/event";
+import {
+  SessionRecord,
+  PeriodTotal,
+  HISTORY_STORE_FILE,
+  loadSessions,
+  clearSessions,
+  summarizeByDay,
+  summarizeByWeek,
+  computeStreaks,
+} from "./history";
+
+let store: Store;
+
+// Number of sessions shown in the recent list
+const RECENT_SESSION_COUNT = 20;
+
+// Initialize
+async function init() {
+  try {
+    store = await Store.load(HISTORY_STORE_FILE);
+    setupEventListeners();
+    await refresh();
+
+    // Keep the view current while sessions finish in the timer window
+    listen("history-updated", () => refresh());
+  } catch (error) {
+    console.error("Failed to initialize statistics:", error);
+  }
+}
+
+// Reload sessions and re-render everything
+async function refresh() {
+  try {
+    const sessions = await loadSessions(store);
+    renderSummary(sessions);
+    renderPeriods("daily-totals", summarizeByDay(sessions, 7));
+    renderPeriods("weekly-totals", summarizeByWeek(sessions, 4));
+    renderRecentSessions(sessions);
+  } catch (error) {
+    console.error("Failed to load history:", error);
+  }
+}
+
+// Render today / this week totals and streaks
+function renderSummary(sessions: SessionRecord[]) {
+  const today = summarizeByDay(sessions, 1)[0];
+  const week = summarizeByWeek(sessions, 1)[0];
+  const streaks = computeStreaks(sessions);
+
+  setText("stat-today", formatDuration(today.seconds));
+  setText("stat-week", formatDuration(week.seconds));
+  setText("stat-streak", formatDays(streaks.current));
+  setText("stat-longest-streak", formatDays(streaks.longest));
+}
+
+// Render one bar per period, scaled to the busiest period
+function renderPeriods(containerId: string, totals: PeriodTotal[]) {
+  const container = document.getElementById(containerId);
+  if (!container) return;
+
+  container.innerHTML = "";
+  const max = Math.max(1, ...totals.map((total) => total.seconds));
+
+  totals.forEach((total) => {
+    const row = document.createElement("div");
+    row.className = "period-row";
+    row.title = `${total.sessions} sessions, ${total.completed} completed`;
+    row.innerHTML = `
+      <span>${total.label}</span>
+      <div class="period-bar">
+        <div class="period-bar-fill" style="width: ${(total.seconds / max) * 100}%"></div>
+      </div>
+      <span class="period-total">${formatDuration(total.seconds)}</span>
+    `;
+    container.appendChild(row);
+  });
+}
+
+// Render the most recent sessions, newest first
+function renderRecentSessions(sessions: SessionRecord[]) {
+  const container = document.getElementById("recent-sessions");
+  if (!container) return;
+
+  container.innerHTML = "";
+
+  if (sessions.length === 0) {
+    container.innerHTML = `
+      <div class="empty-state">
+        <p>No sessions yet. Finished timers will show up here.</p>
+      </div>
+    `;
+    return;
+  }
+
+  sessions
+    .slice(-RECENT_SESSION_COUNT)
+    .reverse()
+    .forEach((session) => {
+      const row = document.createElement("div");
+      row.className = "session-row";
+
+      const started = new Date(session.startedAt).toLocaleString(undefined, {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      const planned = session.plannedSeconds !== null ? ` / ${formatDuration(session.plannedSeconds)}` : "";
+      const overrun = session.overrunSeconds ? ` (+${formatDuration(session.overrunSeconds)} over)` : "";
+      const kind = session.phase || session.segment || session.mode;
+
+      // Built from elements: the segment name comes from the user or an import
+      const when = document.createElement("span");
+      when.textContent = `${started} · ${kind}`;
+      const duration = document.createElement("span");
+      duration.textContent = `${formatDuration(session.actualSeconds)}${planned}${overrun}`;
+      const outcome = document.createElement("span");
+      outcome.className = `session-outcome ${session.outcome}`;
+      outcome.textContent = session.outcome;
+
+      row.append(when, duration, outcome);
+      container.appendChild(row);
+    });
+}
+
+// Format seconds as "1h 05m", "12m" or "40s"
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${totalSeconds}s`;
+}
+
+function formatDays(days: number): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
+
+function setText(id: string, text: string) {
+  const element = document.getElementById(id);
+  if (element) element.textContent = text;
+}
+
+// Setup event listeners
+function setupEventListeners() {
+  document.getElementById("close-btn")?.addEventListener("click", closeWindow);
+  document.getElementById("clear-history-btn")?.addEventListener("click", clearHistory);
+
+  document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") closeWindow();
+  });
+}
+
+// Delete all recorded sessions after confirmation
+async function clearHistory() {
+  if (!confirm("Delete all recorded sessions? This cannot be undone.")) return;
+
+  try {
+    await clearSessions(store);
+    await refresh();
+  } catch (error) {
+    console.error("Failed to clear history:", error);
+    alert("Failed to clear history. Please try again.");
+  }
+}
+
+// Close window
+async function closeWindow() {
+  try {
+    const window = getCurrentWindow();
+    await window.close();
+  } catch (error) {
+    console.error("Failed to close window:", error);
+  }
+}
+
+// Start initialization when DOM is ready
+document.addEventListener("DOMContentLoaded", init);
@@ -0,0 +1,234 @@
+// Theme definitions shared by the timer bar and the settings window, plus
+// the user's custom themes and the portable theme file format
+
+// How the time text stands out from the bar
+export enum OutlineStyle {
+  SHADOW = "shadow", // soft drop shadow (default)
+  STROKE = "stroke", // thin outline around the glyphs
+  NONE = "none"
+}
+
+export interface Theme {
+  name: string;
+  barColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily?: string; // CSS font stack; system font if unset
+  outline?: OutlineStyle; // shadow if unset
+}
+
+export interface GradientStop {
+  color: string; // hex colour
+  position: number; // 0 to 100 along the bar
+}
+
+// A theme made in the theme editor. barColor is derived from the stops.
+export interface CustomTheme {
+  id: string; // key in the theme record, always starts with CUSTOM_THEME_PREFIX
+  name: string;
+  stops: GradientStop[];
+  backgroundColor: string; // hex colour or "transparent"
+  textColor: string;
+  fontFamily: string;
+  outline: OutlineStyle;
+}
+
+export const CUSTOM_THEME_PREFIX = "custom-";
+
+// Portable theme file, for sharing a theme between installs
+export const THEME_FILE_FORMAT = "timebar-theme";
+export const THEME_FILE_VERSION = 1;
+
+export interface ThemeFile {
+  format: typeof THEME_FILE_FORMAT;
+  version: number;
+  theme: Omit<CustomTheme, "id">;
+}
+
+// Fonts offered in the theme editor: CSS font stack → label
+export const THEME_FONTS: Record<string, string> = {
+  "": "System",
+  "'Segoe UI Variable', 'SF Pro Rounded', ui-rounded, 'Nunito', sans-serif": "Rounded",
+  "'Cascadia Mono', 'SF Mono', Consolas, 'Courier New', monospace": "Monospace",
+  "Georgia, 'Times New Roman', serif": "Serif",
+  "'Arial Narrow', 'Roboto Condensed', sans-serif-condensed, sans-serif": "Condensed",
+};
+
+export const OUTLINE_STYLES: Record<OutlineStyle, string> = {
+  [OutlineStyle.SHADOW]: "Shadow",
+  [OutlineStyle.STROKE]: "Outline",
+  [OutlineStyle.NONE]: "None",
+};
+
+export const themes: Record<string, Theme> = {
+  blue: {
+    name: "Ocean Blue",
+    barColor: "linear-gradient(90deg, #1e3c72 0%, #2a5298 50%, #7e22ce 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  green: {
+    name: "Forest Green",
+    barColor: "linear-gradient(90deg, #134e4a 0%, #16a34a 50%, #84cc16 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  purple: {
+    name: "Sunset Purple",
+    barColor: "linear-gradient(90deg, #667eea 0%, #764ba2 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  orange: {
+    name: "Fire Orange",
+    barColor: "linear-gradient(90deg, #dc2626 0%, #f97316 50%, #fbbf24 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  red: {
+    name: "Cherry Red",
+    barColor: "linear-gradient(90deg, #7f1d1d 0%, #dc2626 50%, #f87171 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  dark: {
+    name: "Dark Matter",
+    barColor: "linear-gradient(90deg, #0f172a 0%, #1e293b 50%, #334155 100%)",
+    backgroundColor: "transparent",
+    textColor: "#e2e8f0",
+  },
+  light: {
+    name: "Sky Light",
+    barColor: "linear-gradient(90deg, #0ea5e9 0%, #38bdf8 50%, #7dd3fc 100%)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  dynamic: {
+    name: "Dynamic",
+    barColor: "dynamic",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+  transparent: {
+    name: "Crystal Clear",
+    barColor: "rgba(255, 255, 255, 0.25)",
+    backgroundColor: "transparent",
+    textColor: "#ffffff",
+  },
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+// Hex colour stops of a CSS bar colour: a plain hex colour or a
+// linear-gradient with "#rrggbb N%" stops. Empty for anything else.
+export function parseGradientStops(barColor: string): GradientStop[] {
+  if (isHexColor(barColor.trim())) return [{ color: barColor.trim(), position: 0 }];
+
+  return [...barColor.matchAll(/(#[0-9a-f]{3,8})\s+(\d+(?:\.\d+)?)%/gi)]
+    .filter((match) => isHexColor(match[1]))
+    .map((match) => ({ color: match[1], position: parseFloat(match[2]) }));
+}
+
+// Built-in themes followed by the user's custom themes
+export function getAllThemes(customThemes: CustomTheme[] = []): Record<string, Theme> {
+  const all: Record<string, Theme> = { ...themes };
+  customThemes.forEach((theme) => (all[theme.id] = toTheme(theme)));
+  return all;
+}
+
+// Render a custom theme's stops as the bar's CSS background
+export function toTheme(theme: CustomTheme): Theme {
+  const stops = [...theme.stops].sort((a, b) => a.position - b.position);
+  const barColor = stops.length === 1
+    ? stops[0].color
+    : `linear-gradient(90deg, ${stops.map((stop) => `${stop.color} ${stop.position}%`).join(", ")})`;
+
+  return {
+    name: theme.name,
+    barColor,
+    backgroundColor: theme.backgroundColor,
+    textColor: theme.textColor,
+    fontFamily: theme.fontFamily || undefined,
+    outline: theme.outline,
+  };
+}
+
+// Theme id derived from its name, made unique among the existing ids
+export function createCustomThemeId(name: string, existingIds: string[]): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "theme";
+  let id = CUSTOM_THEME_PREFIX + slug;
+  for (let n = 2; existingIds.includes(id); n++) {
+    id = `${CUSTOM_THEME_PREFIX}${slug}-${n}`;
+  }
+  return id;
+}
+
+// Keep only well-formed custom themes from saved settings
+export function restoreCustomThemes(data: unknown): CustomTheme[] {
+  if (!Array.isArray(data)) return [];
+
+  return data
+    .filter((theme) => typeof theme?.id === "string" && theme.id.startsWith(CUSTOM_THEME_PREFIX))
+    .map((theme) => validateCustomTheme(theme, theme.id))
+    .filter((theme): theme is CustomTheme => typeof theme !== "string");
+}
+
+// Check a theme from a file or the store. Returns the theme, or a
+// user-facing reason it was rejected.
+export function validateCustomTheme(data: any, id: string): CustomTheme | string {
+  if (!data || typeof data !== "object") return "The theme is missing";
+  if (typeof data.name !== "string" || !data.name.trim()) return "The theme needs a name";
+
+  if (!Array.isArray(data.stops) || data.stops.length === 0) return "The theme needs at least one colour stop";
+  const stops: GradientStop[] = [];
+  for (const stop of data.stops) {
+    if (!isHexColor(stop?.color) || typeof stop?.position !== "number") {
+      return "Colour stops need a hex colour and a position";
+    }
+    stops.push({ color: stop.color, position: Math.min(100, Math.max(0, stop.position)) });
+  }
+
+  if (data.backgroundColor !== "transparent" && !isHexColor(data.backgroundColor)) {
+    return "The background must be a hex colour or transparent";
+  }
+  if (!isHexColor(data.textColor)) return "The text colour must be a hex colour";
+
+  return {
+    id,
+    name: data.name.trim(),
+    stops,
+    backgroundColor: data.backgroundColor,
+    textColor: data.textColor,
+    fontFamily: typeof data.fontFamily === "string" ? data.fontFamily : "",
+    outline: Object.values(OutlineStyle).includes(data.outline) ? data.outline : OutlineStyle.SHADOW,
+  };
+}
+
+// Serialize a custom theme as a portable theme file
+export function exportThemeFile(theme: CustomTheme): string {
+  const { id: _id, ...portable } = theme;
+  const file: ThemeFile = { format: THEME_FILE_FORMAT, version: THEME_FILE_VERSION, theme: portable };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read a portable theme file. The theme gets a fresh id among existingIds.
+export function importThemeFile(text: string, existingIds: string[]): CustomTheme | string {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return "The file is not valid JSON";
+  }
+
+  if (file?.format !== THEME_FILE_FORMAT) return "The file is not a Timebar theme";
+  if (typeof file.version !== "number" || file.version > THEME_FILE_VERSION) {
+    return "The theme was made by a newer version of Timebar";
+  }
+
+  const name = typeof file.theme?.name === "string" ? file.theme.name : "";
+  return validateCustomTheme(file.theme, createCustomThemeId(name, existingIds));
+}
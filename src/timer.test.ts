@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  TimerMode,
+  createEngine,
+  startEngine,
+  pauseEngine,
+  resetEngine,
+  adjustEngine,
+  getElapsedMs,
+  getRemainingMs,
+  getDisplaySeconds,
+  getProgress,
+  getOvertimeMs,
+  isEngineRunning,
+  isEngineComplete,
+  restoreEngine,
+} from "./timer";
+
+// Fake clock: every call takes an explicit timestamp, starting from T0
+const T0 = 1_700_000_000_000;
+
+describe("countdown", () => {
+  it("counts down from the wall clock, not from ticks", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    expect(getRemainingMs(engine, T0 + 15_000)).toBe(45_000);
+    expect(getProgress(engine, T0 + 15_000)).toBe(0.75);
+    // A long gap, e.g. the machine sleeping, is still counted
+    expect(getRemainingMs(engine, T0 + 59_000)).toBe(1_000);
+  });
+
+  it("rounds the display up so 00:00 only shows at the end", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    expect(getDisplaySeconds(engine, T0)).toBe(60);
+    expect(getDisplaySeconds(engine, T0 + 100)).toBe(60);
+    expect(getDisplaySeconds(engine, T0 + 59_900)).toBe(1);
+    expect(getDisplaySeconds(engine, T0 + 60_000)).toBe(0);
+  });
+
+  it("keeps paused time out of the elapsed time", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+    pauseEngine(engine, T0 + 10_000);
+
+    expect(isEngineRunning(engine)).toBe(false);
+    expect(getElapsedMs(engine, T0 + 40_000)).toBe(10_000);
+
+    startEngine(engine, T0 + 40_000);
+    expect(getElapsedMs(engine, T0 + 45_000)).toBe(15_000);
+  });
+
+  it("ignores a second start or pause", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+    startEngine(engine, T0 + 5_000);
+    expect(getElapsedMs(engine, T0 + 10_000)).toBe(10_000);
+
+    pauseEngine(engine, T0 + 10_000);
+    pauseEngine(engine, T0 + 20_000);
+    expect(getElapsedMs(engine, T0 + 30_000)).toBe(10_000);
+  });
+
+  it("completes at zero and then reports overtime", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    expect(isEngineComplete(engine, T0 + 59_999)).toBe(false);
+    expect(isEngineComplete(engine, T0 + 60_000)).toBe(true);
+    expect(getRemainingMs(engine, T0 + 75_000)).toBe(0);
+    expect(getOvertimeMs(engine, T0 + 75_000)).toBe(15_000);
+  });
+
+  it("resets to a stopped engine with nothing elapsed", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+    resetEngine(engine);
+
+    expect(isEngineRunning(engine)).toBe(false);
+    expect(getRemainingMs(engine, T0 + 30_000)).toBe(60_000);
+  });
+});
+
+describe("stopwatch", () => {
+  it("counts up, rounds down and never completes", () => {
+    const engine = createEngine(TimerMode.STOPWATCH, 0);
+    startEngine(engine, T0);
+
+    expect(getDisplaySeconds(engine, T0 + 999)).toBe(0);
+    expect(getDisplaySeconds(engine, T0 + 1_000)).toBe(1);
+    expect(getProgress(engine, T0 + 5_000)).toBe(1);
+    expect(isEngineComplete(engine, T0 + 5_000)).toBe(false);
+  });
+});
+
+describe("adjustEngine", () => {
+  it("adds and removes countdown time while running", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    adjustEngine(engine, 60_000, T0 + 30_000);
+    expect(isEngineRunning(engine)).toBe(true);
+    expect(getRemainingMs(engine, T0 + 30_000)).toBe(90_000);
+
+    adjustEngine(engine, -60_000, T0 + 30_000);
+    expect(getRemainingMs(engine, T0 + 30_000)).toBe(30_000);
+  });
+
+  it("does not take a countdown below zero", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    adjustEngine(engine, -120_000, T0 + 30_000);
+    expect(getRemainingMs(engine, T0 + 30_000)).toBe(0);
+    expect(engine.totalMs).toBe(30_000);
+  });
+
+  it("keeps the overrun of a countdown in overtime", () => {
+    const engine = createEngine(TimerMode.COUNTDOWN, 60_000);
+    startEngine(engine, T0);
+
+    expect(adjustEngine(engine, -60_000, T0 + 90_000)).toBe(false);
+    expect(getOvertimeMs(engine, T0 + 90_000)).toBe(30_000);
+
+    expect(adjustEngine(engine, 60_000, T0 + 90_000)).toBe(true);
+    expect(getRemainingMs(engine, T0 + 90_000)).toBe(30_000);
+  });
+
+  it("adds and removes stopwatch time, not below zero", () => {
+    const engine = createEngine(TimerMode.STOPWATCH, 0);
+    startEngine(engine, T0);
+
+    adjustEngine(engine, 60_000, T0 + 10_000);
+    expect(getElapsedMs(engine, T0 + 10_000)).toBe(70_000);
+
+    adjustEngine(engine, -120_000, T0 + 10_000);
+    expect(getElapsedMs(engine, T0 + 10_000)).toBe(0);
+    expect(restoreEngine({ ...engine })).toEqual(engine);
+  });
+
+  it("takes time off a fresh stopwatch by moving its start", () => {
+    const engine = createEngine(TimerMode.STOPWATCH, 0);
+    startEngine(engine, T0);
+
+    adjustEngine(engine, -60_000, T0 + 60_000);
+    expect(engine.accumulatedMs).toBe(0);
+    expect(getElapsedMs(engine, T0 + 60_000)).toBe(0);
+    expect(getElapsedMs(engine, T0 + 70_000)).toBe(10_000);
+    expect(restoreEngine({ ...engine })).toEqual(engine);
+  });
+
+  it("takes time off the running part, then the paused part", () => {
+    const engine = createEngine(TimerMode.STOPWATCH, 0);
+    startEngine(engine, T0);
+    pauseEngine(engine, T0 + 30_000);
+    startEngine(engine, T0 + 40_000);
+
+    adjustEngine(engine, -40_000, T0 + 60_000);
+    expect(engine.accumulatedMs).toBe(10_000);
+    expect(getElapsedMs(engine, T0 + 60_000)).toBe(10_000);
+
+    pauseEngine(engine, T0 + 60_000);
+    adjustEngine(engine, -5_000, T0 + 90_000);
+    expect(getElapsedMs(engine, T0 + 90_000)).toBe(5_000);
+  });
+});
+
+describe("restoreEngine", () => {
+  it("restores a saved engine", () => {
+    const saved = { mode: TimerMode.COUNTDOWN, totalMs: 60_000, startedAt: T0, accumulatedMs: 5_000 };
+    expect(restoreEngine(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  it("rejects unusable data", () => {
+    expect(restoreEngine(null)).toBeNull();
+    expect(restoreEngine({ mode: "lap", totalMs: 1, startedAt: null, accumulatedMs: 0 })).toBeNull();
+    expect(restoreEngine({ mode: TimerMode.COUNTDOWN, totalMs: -1, startedAt: null, accumulatedMs: 0 })).toBeNull();
+    expect(restoreEngine({ mode: TimerMode.COUNTDOWN, totalMs: 1, startedAt: "now", accumulatedMs: 0 })).toBeNull();
+  });
+});
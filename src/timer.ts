@@ -0,0 +1,146 @@
+// Timer engine: derives elapsed/remaining time from wall-clock timestamps
+// instead of counting ticks, so a throttled webview, a late interval or a
+// sleeping machine never makes the timer drift. Kept free of DOM access so it
+// can be driven by a fake clock.
+
+export enum TimerMode {
+  COUNTDOWN = "countdown",
+  STOPWATCH = "stopwatch",
+  POMODORO = "pomodoro", // countdown whose phases are chained by the pomodoro cycle
+  SEQUENCE = "sequence" // countdown whose segments are chained by an interval sequence
+}
+
+// Modes that count down towards zero
+export function isCountdownMode(mode: TimerMode): boolean {
+  return mode === TimerMode.COUNTDOWN || mode === TimerMode.POMODORO || mode === TimerMode.SEQUENCE;
+}
+
+// Returns the current time in milliseconds
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export interface TimerEngine {
+  mode: TimerMode;
+  totalMs: number; // countdown duration
+  startedAt: number | null; // timestamp of the last start, null while paused
+  accumulatedMs: number; // elapsed time banked by previous start/pause runs
+}
+
+// Create a stopped engine
+export function createEngine(mode: TimerMode, totalMs: number): TimerEngine {
+  return {
+    mode,
+    totalMs,
+    startedAt: null,
+    accumulatedMs: 0,
+  };
+}
+
+export function isEngineRunning(engine: TimerEngine): boolean {
+  return engine.startedAt !== null;
+}
+
+// Start or resume the engine
+export function startEngine(engine: TimerEngine, now: number = systemClock()) {
+  if (engine.startedAt !== null) return;
+  engine.startedAt = now;
+}
+
+// Pause the engine, banking the time elapsed since it was started
+export function pauseEngine(engine: TimerEngine, now: number = systemClock()) {
+  if (engine.startedAt === null) return;
+  engine.accumulatedMs += Math.max(0, now - engine.startedAt);
+  engine.startedAt = null;
+}
+
+// Stop the engine and discard all elapsed time
+export function resetEngine(engine: TimerEngine) {
+  engine.startedAt = null;
+  engine.accumulatedMs = 0;
+}
+
+// Add (or with a negative delta, remove) time without interrupting the run.
+// Countdowns gain remaining time, stopwatches gain elapsed time; neither
+// goes below zero. A countdown in overtime has no time left to take off, and
+// taking it off the overrun would erase it, so that is refused.
+// Returns whether the time changed.
+export function adjustEngine(engine: TimerEngine, deltaMs: number, now: number = systemClock()): boolean {
+  if (isCountdownMode(engine.mode)) {
+    if (deltaMs < 0 && isEngineComplete(engine, now)) return false;
+    engine.totalMs = Math.max(getElapsedMs(engine, now), engine.totalMs + deltaMs);
+  } else if (deltaMs >= 0) {
+    engine.accumulatedMs += deltaMs;
+  } else {
+    // Take time off the running part first by starting it later, so the
+    // accumulated time never goes below zero
+    let removeMs = -deltaMs;
+    if (engine.startedAt !== null) {
+      const runningMs = Math.min(removeMs, Math.max(0, now - engine.startedAt));
+      engine.startedAt += runningMs;
+      removeMs -= runningMs;
+    }
+    engine.accumulatedMs = Math.max(0, engine.accumulatedMs - removeMs);
+  }
+  return true;
+}
+
+// Total running time, excluding paused periods
+export function getElapsedMs(engine: TimerEngine, now: number = systemClock()): number {
+  const running = engine.startedAt !== null ? Math.max(0, now - engine.startedAt) : 0;
+  return engine.accumulatedMs + running;
+}
+
+// Time left on a countdown, never below zero
+export function getRemainingMs(engine: TimerEngine, now: number = systemClock()): number {
+  return Math.max(0, engine.totalMs - getElapsedMs(engine, now));
+}
+
+// Remaining time for countdowns, elapsed time for stopwatches
+export function getDisplayMs(engine: TimerEngine, now: number = systemClock()): number {
+  return isCountdownMode(engine.mode)
+    ? getRemainingMs(engine, now)
+    : getElapsedMs(engine, now);
+}
+
+// Whole seconds to show: countdowns round up so "00:00" only appears at the
+// very end, stopwatches round down so "00:01" only appears after one second
+export function getDisplaySeconds(engine: TimerEngine, now: number = systemClock()): number {
+  const ms = getDisplayMs(engine, now);
+  return isCountdownMode(engine.mode) ? Math.ceil(ms / 1000) : Math.floor(ms / 1000);
+}
+
+// Countdown progress from 1 (full) to 0 (done); stopwatches are always full
+export function getProgress(engine: TimerEngine, now: number = systemClock()): number {
+  if (!isCountdownMode(engine.mode)) return 1;
+  return engine.totalMs > 0 ? getRemainingMs(engine, now) / engine.totalMs : 0;
+}
+
+// How far a countdown has run past zero
+export function getOvertimeMs(engine: TimerEngine, now: number = systemClock()): number {
+  if (!isCountdownMode(engine.mode)) return 0;
+  return Math.max(0, getElapsedMs(engine, now) - engine.totalMs);
+}
+
+export function isEngineComplete(engine: TimerEngine, now: number = systemClock()): boolean {
+  return isCountdownMode(engine.mode) && getRemainingMs(engine, now) === 0;
+}
+
+// Rebuild an engine from persisted data, or null if the data is unusable
+export function restoreEngine(data: unknown): TimerEngine | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<TimerEngine>;
+  
+  const validMode = Object.values(TimerMode).includes(saved.mode as TimerMode);
+  const validTotal = typeof saved.totalMs === "number" && saved.totalMs >= 0;
+  const validStart = saved.startedAt === null || typeof saved.startedAt === "number";
+  const validAccumulated = typeof saved.accumulatedMs === "number" && saved.accumulatedMs >= 0;
+  if (!validMode || !validTotal || !validStart || !validAccumulated) return null;
+  
+  return {
+    mode: saved.mode!,
+    totalMs: saved.totalMs!,
+    startedAt: saved.startedAt!,
+    accumulatedMs: saved.accumulatedMs!,
+  };
+}
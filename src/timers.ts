@@ -0,0 +1,143 @@
+// Timer collection: several named timers can run at once. The bar works on
+// one focused timer at a time and shows the others as compact segments or
+// lets the user cycle through them.
+
+import {
+  TimerMode,
+  TimerEngine,
+  createEngine,
+  restoreEngine,
+  isCountdownMode,
+  isEngineRunning,
+  isEngineComplete,
+  getElapsedMs,
+  getDisplaySeconds,
+  getOvertimeMs,
+  systemClock,
+} from "./timer";
+import { PomodoroPhase, PomodoroState, restorePomodoroState } from "./pomodoro";
+import { ActiveSession } from "./history";
+import { PresetTime } from "./presets";
+import { Lap, restoreLaps } from "./laps";
+import { SequenceState, restoreSequenceState, getSegmentLabel } from "./sequences";
+import { isInOvertime } from "./overtime";
+
+export interface TimerEntry {
+  id: string;
+  name: string;
+  engine: TimerEngine;
+  pomodoro: PomodoroState | null; // active pomodoro cycle
+  sequence: SequenceState | null; // active interval sequence
+  session: ActiveSession | null; // open history session
+  preset: PresetTime | null; // preset whose theme and sound apply
+  laps: Lap[]; // stopwatch laps since the last reset
+}
+
+// How the bar shows more than one timer
+export enum TimerLayout {
+  CYCLE = "cycle", // one timer at a time, switch with "Next Timer"
+  SEGMENTS = "segments" // all timers side by side
+}
+
+export interface TimerCollection {
+  timers: TimerEntry[];
+  focusedId: string;
+  layout: TimerLayout;
+}
+
+// Snapshot of one timer for remote control clients
+export interface TimerStatus {
+  id: string;
+  name: string;
+  mode: TimerMode;
+  running: boolean;
+  complete: boolean;
+  displaySeconds: number; // as shown on the bar: time left, or elapsed for stopwatches
+  elapsedSeconds: number;
+  totalSeconds: number | null; // countdown length, null for stopwatches
+  overtimeSeconds: number | null; // time past zero, null unless in overtime
+  phase: PomodoroPhase | null;
+  segment: string | null; // interval sequence segment, e.g. "Work 3/8"
+}
+
+// Short unique id, safe to embed in tray menu ids
+export function createTimerId(): string {
+  return `t${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+}
+
+export function createTimerEntry(name: string, mode: TimerMode = TimerMode.COUNTDOWN, totalMs: number = 180 * 1000): TimerEntry {
+  return {
+    id: createTimerId(),
+    name,
+    engine: createEngine(mode, totalMs),
+    pomodoro: null,
+    sequence: null,
+    session: null,
+    preset: null,
+    laps: [],
+  };
+}
+
+export function getTimerStatus(timer: TimerEntry, now: number = systemClock()): TimerStatus {
+  const countdown = isCountdownMode(timer.engine.mode);
+  return {
+    id: timer.id,
+    name: timer.name,
+    mode: timer.engine.mode,
+    running: isEngineRunning(timer.engine),
+    complete: isEngineComplete(timer.engine, now),
+    displaySeconds: getDisplaySeconds(timer.engine, now),
+    elapsedSeconds: Math.floor(getElapsedMs(timer.engine, now) / 1000),
+    totalSeconds: countdown ? Math.round(timer.engine.totalMs / 1000) : null,
+    overtimeSeconds: isInOvertime(timer.session) ? Math.floor(getOvertimeMs(timer.engine, now) / 1000) : null,
+    phase: timer.pomodoro?.phase ?? null,
+    segment: timer.sequence ? getSegmentLabel(timer.sequence) : null,
+  };
+}
+
+// First free "Timer N" name
+export function nextTimerName(timers: TimerEntry[]): string {
+  const names = new Set(timers.map((timer) => timer.name));
+  let n = timers.length + 1;
+  while (names.has(`Timer ${n}`)) n++;
+  return `Timer ${n}`;
+}
+
+// Restore a persisted collection, dropping unusable timers; null if none survive
+export function restoreTimerCollection(data: unknown): TimerCollection | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<TimerCollection>;
+  if (!Array.isArray(saved.timers)) return null;
+
+  const timers = saved.timers
+    .map((timer) => restoreTimerEntry(timer))
+    .filter((timer): timer is TimerEntry => timer !== null);
+  if (timers.length === 0) return null;
+
+  const focused = timers.find((timer) => timer.id === saved.focusedId) || timers[0];
+  return {
+    timers,
+    focusedId: focused.id,
+    layout: saved.layout === TimerLayout.SEGMENTS ? TimerLayout.SEGMENTS : TimerLayout.CYCLE,
+  };
+}
+
+function restoreTimerEntry(data: unknown): TimerEntry | null {
+  if (!data || typeof data !== "object") return null;
+  const saved = data as Partial<TimerEntry>;
+
+  const engine = restoreEngine(saved.engine);
+  if (!engine || typeof saved.id !== "string" || typeof saved.name !== "string") return null;
+
+  const session = saved.session && typeof saved.session.startedAt === "number" ? saved.session : null;
+  return {
+    id: saved.id,
+    name: saved.name,
+    engine,
+    pomodoro: restorePomodoroState(saved.pomodoro),
+    sequence: restoreSequenceState(saved.sequence),
+    session,
+    preset: saved.preset || null,
+    laps: restoreLaps(saved.laps),
+  };
+}
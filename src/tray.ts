@@ -0,0 +1,55 @@
+// Tray status: a tooltip with the time on the bar and, optionally, a
+// progress ring icon drawn by the backend (see tray.rs), so the timer can be
+// read while the bar is hidden behind a full-screen app.
+
+import { TimerMode } from "./timer";
+import { TimerStatus } from "./timers";
+import { formatStatus } from "./cli";
+
+export enum TrayIconState {
+  RUNNING = "running",
+  PAUSED = "paused", // also a timer that has not started yet
+  COMPLETE = "complete" // finished or in overtime
+}
+
+export interface TraySettings {
+  progressIcon: boolean; // replace the app icon with a progress ring
+}
+
+export const DEFAULT_TRAY_SETTINGS: TraySettings = {
+  progressIcon: false,
+};
+
+// Status sent to the backend; icon is null for the app icon
+export interface TrayStatus {
+  tooltip: string;
+  icon: { state: TrayIconState; progress: number } | null;
+}
+
+// Least time between two tray updates; a change in between is sent when it ends
+export const TRAY_UPDATE_INTERVAL_MS = 1000;
+
+// Merge saved tray settings over the defaults
+export function resolveTraySettings(saved?: Partial<TraySettings>): TraySettings {
+  return {
+    progressIcon: typeof saved?.progressIcon === "boolean" ? saved.progressIcon : DEFAULT_TRAY_SETTINGS.progressIcon,
+  };
+}
+
+export function getTrayStatus(status: TimerStatus, settings: TraySettings): TrayStatus {
+  const tooltip = `Timebar — ${formatStatus(status)}`;
+  if (!settings.progressIcon) return { tooltip, icon: null };
+
+  const state = status.complete || status.overtimeSeconds !== null ? TrayIconState.COMPLETE
+    : status.running ? TrayIconState.RUNNING
+    : TrayIconState.PAUSED;
+  return { tooltip, icon: { state, progress: getRingProgress(status) } };
+}
+
+// Part of the ring filled: the time left of a countdown, like the bar, or
+// the seconds of the current minute on a stopwatch
+function getRingProgress(status: TimerStatus): number {
+  if (status.mode === TimerMode.STOPWATCH) return (status.elapsedSeconds % 60) / 60;
+  if (!status.totalSeconds) return 0;
+  return Math.min(1, Math.max(0, status.displaySeconds / status.totalSeconds));
+}
@@ -0,0 +1,153 @@
+// Tray menu: built here from the action registry and sent to the backend,
+// which only turns the entries into native menu items (see lib.rs). Clicks
+// come back as the item's id, read with parseMenuId. Check marks show the current mode and theme.
+
+import { AppAction, ACTIONS, getMenuId } from "./actions";
+import { TimerMode } from "./timer";
+import { PresetTime } from "./presets";
+import { CustomTheme, themes } from "./themes";
+import { ImportMode } from "./backup";
+import { formatTime } from "./duration";
+import { TRAY_ADJUSTMENTS, formatAdjustment } from "./adjust";
+
+export type MenuEntry =
+  | { kind: "item"; id: string; label: string; checked?: boolean } // checked is only set on check items
+  | { kind: "separator" }
+  | { kind: "submenu"; label: string; items: MenuEntry[] };
+
+export interface TrayMenuContext {
+  presets: PresetTime[];
+  sequences: { name: string }[];
+  customThemes: CustomTheme[];
+  theme: string; // the user's theme
+  mode: TimerMode; // focused timer
+  timers: { id: string; name: string }[];
+  focusedId: string;
+  recentTimes: number[]; // seconds, latest first
+}
+
+// Custom times kept for the tray menu
+export const MAX_RECENT_TIMES = 5;
+
+// Built-in themes after which a separator goes, e.g. before "Dynamic"
+const THEME_GROUP_ENDS = new Set(["light"]);
+
+const SEPARATOR: MenuEntry = { kind: "separator" };
+
+function item(action: AppAction, arg?: string | number, label?: string): MenuEntry {
+  const info = ACTIONS[action];
+  return { kind: "item", id: getMenuId(action, arg), label: label ?? info.menuLabel ?? info.label };
+}
+
+function checkItem(action: AppAction, arg: string | number, label: string, checked: boolean): MenuEntry {
+  return { kind: "item", id: getMenuId(action, arg), label, checked };
+}
+
+export function buildTrayMenu(context: TrayMenuContext): MenuEntry[] {
+  return [
+    item(AppAction.SHOW_WINDOW),
+    SEPARATOR,
+    ...context.presets.map((preset, index) => item(AppAction.APPLY_PRESET, index, formatPresetLabel(preset, index))),
+    ...(context.sequences.length > 0 ? [SEPARATOR] : []),
+    ...context.sequences.map((sequence, index) => item(AppAction.START_SEQUENCE, index, `${sequence.name} (Sequence)`)),
+    ...(context.recentTimes.length > 0 ? [SEPARATOR] : []),
+    ...context.recentTimes.map((seconds) => item(AppAction.SET_TIME, seconds, `Recent: ${formatTime(seconds)}`)),
+    SEPARATOR,
+    checkItem(AppAction.SET_MODE, TimerMode.COUNTDOWN, "Countdown", context.mode === TimerMode.COUNTDOWN),
+    checkItem(AppAction.SET_MODE, TimerMode.STOPWATCH, "Stopwatch", context.mode === TimerMode.STOPWATCH),
+    item(AppAction.CUSTOM_TIME),
+    item(AppAction.OPEN_SETTINGS),
+    item(AppAction.OPEN_STATISTICS),
+    item(AppAction.OPEN_LAPS),
+    SEPARATOR,
+    {
+      kind: "submenu",
+      label: "Adjust Time",
+      items: [
+        ...TRAY_ADJUSTMENTS.map((seconds) => item(AppAction.ADJUST_TIME, seconds, formatAdjustment(seconds))),
+        SEPARATOR,
+        item(AppAction.SNOOZE),
+      ],
+    },
+    { kind: "submenu", label: "Timers", items: buildTimersMenu(context) },
+    {
+      kind: "submenu",
+      label: "Pomodoro",
+      items: [item(AppAction.POMODORO_START), item(AppAction.POMODORO_SKIP), item(AppAction.POMODORO_END)],
+    },
+    { kind: "submenu", label: "Themes", items: buildThemesMenu(context) },
+    {
+      kind: "submenu",
+      label: "Backup",
+      items: [
+        item(AppAction.EXPORT_BACKUP),
+        item(AppAction.EXPORT_BACKUP, "history", "Export Settings and History..."),
+        SEPARATOR,
+        item(AppAction.IMPORT_BACKUP, ImportMode.MERGE, "Import and Merge..."),
+        item(AppAction.IMPORT_BACKUP, ImportMode.REPLACE, "Import and Replace..."),
+      ],
+    },
+    SEPARATOR,
+    item(AppAction.QUIT),
+  ];
+}
+
+// "2 - Standup", or "2 - Standup (Stopwatch)"
+function formatPresetLabel(preset: PresetTime, index: number): string {
+  const label = `${index + 1} - ${preset.label}`;
+  return preset.mode === TimerMode.STOPWATCH ? `${label} (Stopwatch)` : label;
+}
+
+// One submenu per timer, the focused one marked, then the collection actions
+function buildTimersMenu(context: TrayMenuContext): MenuEntry[] {
+  const timers: MenuEntry[] = context.timers.map((timer) => ({
+    kind: "submenu",
+    label: timer.id === context.focusedId ? `• ${timer.name}` : timer.name,
+    items: [
+      item(AppAction.START_PAUSE, timer.id),
+      item(AppAction.RESET, timer.id),
+      item(AppAction.FOCUS_TIMER, timer.id),
+      item(AppAction.RENAME_TIMER, timer.id),
+      SEPARATOR,
+      item(AppAction.REMOVE_TIMER, timer.id),
+    ],
+  }));
+
+  return [
+    ...timers,
+    ...(timers.length > 0 ? [SEPARATOR] : []),
+    item(AppAction.ADD_TIMER),
+    item(AppAction.NEXT_TIMER),
+    item(AppAction.TIMER_LAYOUT),
+  ];
+}
+
+// Built-in themes, then the user's custom themes
+function buildThemesMenu(context: TrayMenuContext): MenuEntry[] {
+  const entries: MenuEntry[] = [];
+  Object.entries(themes).forEach(([id, theme]) => {
+    entries.push(checkItem(AppAction.SET_THEME, id, theme.name, context.theme === id));
+    if (THEME_GROUP_ENDS.has(id)) entries.push(SEPARATOR);
+  });
+
+  if (context.customThemes.length > 0) {
+    entries.push(SEPARATOR);
+    context.customThemes.forEach((theme) => {
+      entries.push(checkItem(AppAction.SET_THEME, theme.id, theme.name, context.theme === theme.id));
+    });
+  }
+  return entries;
+}
+
+// Put a custom time first, without repeats, keeping MAX_RECENT_TIMES
+export function addRecentTime(recentTimes: number[], seconds: number): number[] {
+  return [seconds, ...recentTimes.filter((recent) => recent !== seconds)].slice(0, MAX_RECENT_TIMES);
+}
+
+// Keep only usable times from the store
+export function restoreRecentTimes(data: unknown): number[] {
+  if (!Array.isArray(data)) return [];
+  return data
+    .filter((seconds): seconds is number => Number.isInteger(seconds) && seconds > 0)
+    .slice(0, MAX_RECENT_TIMES);
+}
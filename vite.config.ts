@@ -34,6 +34,8 @@ export default defineConfig(async () => ({
       input: {
         main: resolve(__dirname, "index.html"),
         settings: resolve(__dirname, "settings.html"),
+        stats: resolve(__dirname, "stats.html"),
+        laps: resolve(__dirname, "laps.html"),
       },
     },
   },